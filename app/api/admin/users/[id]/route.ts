@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { isRole } from "@/lib/auth/roles"
+import { requirePermission } from "@/lib/auth/session"
+import { getUserStore, toSessionUser } from "@/lib/auth/user-store"
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const admin = await requirePermission("admin:access")
+  if (admin instanceof NextResponse) return admin
+
+  const body = await request.json().catch(() => null)
+  if (!isRole(body?.role)) {
+    return NextResponse.json({ error: "A valid role is required." }, { status: 400 })
+  }
+  // Stops the only admin from locking everyone out of the admin area
+  if (params.id === admin.id && body.role !== "admin") {
+    return NextResponse.json({ error: "You cannot remove your own admin role." }, { status: 400 })
+  }
+
+  const store = await getUserStore()
+  const user = await store.update(params.id, { role: body.role })
+  if (!user) {
+    return NextResponse.json({ error: "User not found." }, { status: 404 })
+  }
+
+  return NextResponse.json({ user: { ...toSessionUser(user), twoFactorEnabled: !!user.totp?.enabled } })
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { isRole } from "@/lib/auth/roles"
+import { armyNumberSchema } from "@/lib/auth/schema"
+import { requirePermission } from "@/lib/auth/session"
+import { getUserStore, toSessionUser } from "@/lib/auth/user-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const admin = await requirePermission("admin:access")
+  if (admin instanceof NextResponse) return admin
+
+  const store = await getUserStore()
+  const users = await store.list()
+  return NextResponse.json({
+    users: users.map((user) => ({ ...toSessionUser(user), twoFactorEnabled: !!user.totp?.enabled })),
+  })
+}
+
+export async function POST(request: Request) {
+  const admin = await requirePermission("admin:access")
+  if (admin instanceof NextResponse) return admin
+
+  const body = await request.json().catch(() => null)
+  const parsedArmyNumber = armyNumberSchema.safeParse(body?.armyNumber)
+  const password = typeof body?.password === "string" ? body.password : ""
+
+  if (!parsedArmyNumber.success) {
+    return NextResponse.json({ error: parsedArmyNumber.error.issues[0].message }, { status: 400 })
+  }
+  if (password.length < 8 || !isRole(body?.role)) {
+    return NextResponse.json({ error: "A role and a password of at least 8 characters are required." }, { status: 400 })
+  }
+  const armyNumber = parsedArmyNumber.data
+
+  const store = await getUserStore()
+  if (await store.findByArmyNumber(armyNumber)) {
+    return NextResponse.json({ error: "A user with this Army Number already exists." }, { status: 409 })
+  }
+
+  const user = await store.create({ armyNumber, password, role: body.role })
+  return NextResponse.json({ user: { ...toSessionUser(user), twoFactorEnabled: false } }, { status: 201 })
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { recordAudit } from "@/lib/auth/audit"
+import { getLockoutRemaining, lockedResponse, rejectAttempt } from "@/lib/auth/lockout"
+import { hashPassword, verifyPassword } from "@/lib/auth/password"
+import { loginSchema } from "@/lib/auth/schema"
+import { createSession, setSessionCookie } from "@/lib/auth/session"
+import { getUserStore, toSessionUser } from "@/lib/auth/user-store"
+
+const INVALID_CREDENTIALS = "Invalid credentials. Please check your Army Number and Password."
+
+// Unknown Army Numbers are still checked against a real hash so response timing doesn't reveal which accounts exist
+let dummyHash: Promise<string> | null = null
+
+export async function POST(request: Request) {
+  const parsed = loginSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Please check your Army Number and Password.", fieldErrors: parsed.error.flatten().fieldErrors },
+      { status: 400 },
+    )
+  }
+  const { armyNumber, password } = parsed.data
+
+  const lockedForMs = await getLockoutRemaining(armyNumber)
+  if (lockedForMs) {
+    await recordAudit(request, "login.locked", armyNumber)
+    return lockedResponse(lockedForMs)
+  }
+
+  const store = await getUserStore()
+  const user = await store.findByArmyNumber(armyNumber)
+  if (!dummyHash) dummyHash = hashPassword("")
+  const valid = await verifyPassword(password, user?.passwordHash ?? (await dummyHash))
+
+  if (!user || !valid) {
+    return rejectAttempt(request, armyNumber, "login.failure", INVALID_CREDENTIALS)
+  }
+  await recordAudit(request, "login.success", user.armyNumber, "password accepted")
+
+  // Every account needs a second factor: either prove it, or enroll one before going further
+  const stage = user.totp?.enabled ? "mfa" : "enroll"
+  const { token, expiresAt } = await createSession(user.id, stage)
+  setSessionCookie(token, expiresAt)
+
+  return NextResponse.json({
+    status: stage === "mfa" ? "mfa_required" : "enrollment_required",
+    user: toSessionUser(user),
+  })
+}
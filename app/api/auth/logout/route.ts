@@ -0,0 +1,26 @@
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { recordAudit } from "@/lib/auth/audit"
+import { clearSessionCookie, destroySession, findSessionRecord, SESSION_COOKIE } from "@/lib/auth/session"
+import { getUserStore } from "@/lib/auth/user-store"
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const token = cookies().get(SESSION_COOKIE)?.value
+
+  if (token) {
+    // The session may already have expired, but we still want to know whose it was
+    const session = await findSessionRecord(token)
+    if (session) {
+      const store = await getUserStore()
+      const user = await store.findById(session.userId)
+      if (user) {
+        await recordAudit(request, body?.reason === "idle" ? "session.expired" : "logout", user.armyNumber)
+      }
+      await destroySession(token)
+    }
+  }
+  clearSessionCookie()
+
+  return NextResponse.json({ status: "logged_out" })
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { recordAudit } from "@/lib/auth/audit"
+import { clearFailedAttempts, getLockoutRemaining, lockedResponse, rejectAttempt } from "@/lib/auth/lockout"
+import { activateSession, getCookieSession, setSessionCookie } from "@/lib/auth/session"
+import { generateBackupCodes, hashBackupCode, verifyTotp } from "@/lib/auth/totp"
+import { getUserStore, toSessionUser } from "@/lib/auth/user-store"
+
+// Confirms enrollment with a first code from the authenticator app and hands out backup codes.
+// The plain backup codes are only ever returned here.
+export async function POST(request: Request) {
+  const current = await getCookieSession()
+  if (!current || current.session.stage !== "enroll") {
+    return NextResponse.json({ error: "Your login has expired. Please sign in again." }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const code = typeof body?.code === "string" ? body.code.trim() : ""
+
+  const store = await getUserStore()
+  const user = await store.findById(current.session.userId)
+  if (!user?.totp || user.totp.enabled) {
+    return NextResponse.json({ error: "Start enrollment before confirming a code." }, { status: 400 })
+  }
+
+  const lockedForMs = await getLockoutRemaining(user.armyNumber)
+  if (lockedForMs) {
+    await recordAudit(request, "login.locked", user.armyNumber)
+    return lockedResponse(lockedForMs)
+  }
+
+  const step = verifyTotp(user.totp.secret, code)
+  if (step === null) {
+    return rejectAttempt(request, user.armyNumber, "mfa.failure", "Invalid verification code.")
+  }
+
+  const backupCodes = generateBackupCodes()
+  await store.update(user.id, {
+    totp: { secret: user.totp.secret, enabled: true, lastStep: step, backupCodes: backupCodes.map(hashBackupCode) },
+  })
+
+  const expiresAt = await activateSession(current.token)
+  if (!expiresAt) {
+    return NextResponse.json({ error: "Your login has expired. Please sign in again." }, { status: 401 })
+  }
+  setSessionCookie(current.token, expiresAt)
+  await clearFailedAttempts(user.armyNumber)
+  await recordAudit(request, "mfa.enrolled", user.armyNumber)
+
+  return NextResponse.json({ status: "authenticated", user: toSessionUser(user), backupCodes })
+}
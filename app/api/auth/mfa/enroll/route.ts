@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import QRCode from "qrcode"
+import { getCookieSession } from "@/lib/auth/session"
+import { buildOtpauthUri, generateTotpSecret } from "@/lib/auth/totp"
+import { getUserStore } from "@/lib/auth/user-store"
+
+// Issues a fresh TOTP secret for a user who hasn't enabled two-factor yet.
+// It only takes effect once confirmed through /api/auth/mfa/activate.
+export async function POST() {
+  const current = await getCookieSession()
+  if (!current || current.session.stage !== "enroll") {
+    return NextResponse.json({ error: "Your login has expired. Please sign in again." }, { status: 401 })
+  }
+
+  const store = await getUserStore()
+  const user = await store.findById(current.session.userId)
+  if (!user) {
+    return NextResponse.json({ error: "Your login has expired. Please sign in again." }, { status: 401 })
+  }
+  if (user.totp?.enabled) {
+    return NextResponse.json({ error: "Two-factor authentication is already enabled." }, { status: 409 })
+  }
+
+  const secret = generateTotpSecret()
+  await store.update(user.id, { totp: { secret, enabled: false, backupCodes: [] } })
+
+  const otpauthUri = buildOtpauthUri(secret, user.armyNumber)
+  const qrCode = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 200 })
+
+  return NextResponse.json({ secret, otpauthUri, qrCode })
+}
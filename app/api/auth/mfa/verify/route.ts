@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { recordAudit } from "@/lib/auth/audit"
+import { clearFailedAttempts, getLockoutRemaining, lockedResponse, rejectAttempt } from "@/lib/auth/lockout"
+import { activateSession, getCookieSession, setSessionCookie } from "@/lib/auth/session"
+import { hashBackupCode, verifyTotp } from "@/lib/auth/totp"
+import { getUserStore, toSessionUser } from "@/lib/auth/user-store"
+
+export async function POST(request: Request) {
+  const current = await getCookieSession()
+  if (!current || current.session.stage !== "mfa") {
+    return NextResponse.json({ error: "Your login has expired. Please sign in again." }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const code = typeof body?.code === "string" ? body.code.trim() : ""
+
+  const store = await getUserStore()
+  const user = await store.findById(current.session.userId)
+  if (!user?.totp?.enabled) {
+    return NextResponse.json({ error: "Two-factor authentication is not set up." }, { status: 400 })
+  }
+
+  const lockedForMs = await getLockoutRemaining(user.armyNumber)
+  if (lockedForMs) {
+    await recordAudit(request, "login.locked", user.armyNumber)
+    return lockedResponse(lockedForMs)
+  }
+
+  const step = verifyTotp(user.totp.secret, code)
+  if (step !== null && step > (user.totp.lastStep ?? -1)) {
+    await store.update(user.id, { totp: { ...user.totp, lastStep: step } })
+  } else {
+    // Fall back to a single-use backup code
+    const hashed = hashBackupCode(code)
+    if (!code || !user.totp.backupCodes.includes(hashed)) {
+      return rejectAttempt(request, user.armyNumber, "mfa.failure", "Invalid verification code.")
+    }
+    await store.update(user.id, {
+      totp: { ...user.totp, backupCodes: user.totp.backupCodes.filter((backup) => backup !== hashed) },
+    })
+  }
+
+  const expiresAt = await activateSession(current.token)
+  if (!expiresAt) {
+    return NextResponse.json({ error: "Your login has expired. Please sign in again." }, { status: 401 })
+  }
+  setSessionCookie(current.token, expiresAt)
+  await clearFailedAttempts(user.armyNumber)
+  await recordAudit(request, "mfa.success", user.armyNumber)
+
+  return NextResponse.json({ status: "authenticated", user: toSessionUser(user) })
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser, getIdleTimeoutMs } from "@/lib/auth/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+  }
+  return NextResponse.json({ user, idleTimeoutMs: getIdleTimeoutMs() })
+}
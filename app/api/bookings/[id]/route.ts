@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { recordAudit } from "@/lib/auth/audit"
+import { requirePermission } from "@/lib/auth/session"
+import { BOOKING_STATUS_LABELS, isBookingStatus } from "@/lib/billeting/booking"
+import { updateBookingStatus } from "@/lib/billeting/booking-store"
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  const user = await requirePermission("bookings:create")
+  if (user instanceof NextResponse) return user
+
+  const body = await request.json().catch(() => null)
+  const status = body?.status
+  if (!isBookingStatus(status)) {
+    return NextResponse.json({ error: "A valid status is required." }, { status: 400 })
+  }
+
+  const result = await updateBookingStatus(params.id, status, user)
+  if (!result) {
+    return NextResponse.json({ error: "Booking not found." }, { status: 404 })
+  }
+  if ("forbidden" in result) {
+    return NextResponse.json({ error: `Only ${result.forbidden.unit} can change this booking.` }, { status: 403 })
+  }
+  if ("invalid" in result) {
+    const from = BOOKING_STATUS_LABELS[result.invalid.status].toLowerCase()
+    const to = BOOKING_STATUS_LABELS[status].toLowerCase()
+    return NextResponse.json({ error: `A ${from} booking cannot be marked ${to}.` }, { status: 409 })
+  }
+
+  const { booking, previous } = result
+  await recordAudit(request, "booking.status", user.armyNumber, `${booking.id} ${previous} -> ${booking.status}`)
+  return NextResponse.json({ booking })
+}
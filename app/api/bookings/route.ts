@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/session"
+import { bookingInputSchema, formatNights, formatStay } from "@/lib/billeting/booking"
+import { createBooking, listBookings } from "@/lib/billeting/booking-store"
+import { estimateTroopCapacity } from "@/lib/billeting/capacity"
+import { getCapacityRecords } from "@/lib/billeting/capacity-store"
+import { getMovement } from "@/lib/billeting/movement-store"
+import { isFallbackLocationId } from "@/lib/places"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/bookings?locationId=node/123 - every booking for the place, cancelled ones included
+export async function GET(request: Request) {
+  const user = await requirePermission("bookings:create")
+  if (user instanceof NextResponse) return user
+
+  const locationId = new URL(request.url).searchParams.get("locationId") ?? undefined
+  return NextResponse.json({ bookings: await listBookings(locationId) })
+}
+
+export async function POST(request: Request) {
+  const user = await requirePermission("bookings:create")
+  if (user instanceof NextResponse) return user
+
+  const parsed = bookingInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Please check the booking details.", fieldErrors: parsed.error.flatten().fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  if (isFallbackLocationId(parsed.data.locationId)) {
+    return NextResponse.json({ error: "Sample places can't be booked." }, { status: 400 })
+  }
+  if (parsed.data.movementId && !(await getMovement(parsed.data.movementId))) {
+    return NextResponse.json({ error: "That movement no longer exists." }, { status: 400 })
+  }
+
+  // Only the registry's capacity is trusted here; places without a record are booked one unit at a time
+  const record = (await getCapacityRecords([parsed.data.locationId]))[parsed.data.locationId]
+  const capacity = record ? estimateTroopCapacity(record) : undefined
+
+  const result = await createBooking(parsed.data, user.armyNumber, capacity)
+  if ("conflict" in result) {
+    const { conflict } = result
+    return NextResponse.json(
+      { error: `Already booked by ${conflict.unit} for ${formatStay(conflict)}.`, conflict },
+      { status: 409 },
+    )
+  }
+  if ("overbooked" in result) {
+    const { overbooked } = result
+    return NextResponse.json(
+      { error: `Over capacity (${capacity}) on ${formatNights(overbooked)}.`, overbooked },
+      { status: 409 },
+    )
+  }
+  return NextResponse.json({ booking: result.booking }, { status: 201 })
+}
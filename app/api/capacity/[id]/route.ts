@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/session"
+import { capacityInputSchema } from "@/lib/billeting/capacity"
+import { deleteCapacityRecord, saveCapacityRecord } from "@/lib/billeting/capacity-store"
+import { isFallbackLocationId } from "@/lib/places"
+
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const user = await requirePermission("locations:edit")
+  if (user instanceof NextResponse) return user
+
+  if (isFallbackLocationId(params.id)) {
+    return NextResponse.json({ error: "Sample places can't have a capacity record." }, { status: 400 })
+  }
+
+  const parsed = capacityInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Please check the capacity details.", fieldErrors: parsed.error.flatten().fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  const record = await saveCapacityRecord({
+    ...parsed.data,
+    locationId: params.id,
+    updatedAt: new Date().toISOString(),
+    updatedBy: user.armyNumber,
+  })
+  return NextResponse.json({ record })
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const user = await requirePermission("locations:edit")
+  if (user instanceof NextResponse) return user
+
+  if (!(await deleteCapacityRecord(params.id))) {
+    return NextResponse.json({ error: "No capacity record for this place." }, { status: 404 })
+  }
+  return NextResponse.json({ status: "deleted" })
+}
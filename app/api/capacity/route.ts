@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getCurrentUser } from "@/lib/auth/session"
+import { getCapacityRecords } from "@/lib/billeting/capacity-store"
+
+export const dynamic = "force-dynamic"
+
+// Keeps a single lookup bounded; a search returns at most a few dozen places
+const MAX_IDS = 200
+
+// GET /api/capacity?ids=node/123,way/456 - records for the given Location ids, keyed by id
+export async function GET(request: Request) {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+  }
+
+  const ids = (new URL(request.url).searchParams.get("ids") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+  if (ids.length > MAX_IDS) {
+    return NextResponse.json({ error: `At most ${MAX_IDS} ids per request.` }, { status: 400 })
+  }
+
+  return NextResponse.json({ records: await getCapacityRecords(ids) })
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/session"
+import { assignmentsSchema } from "@/lib/billeting/nominal-roll"
+import { saveAssignments } from "@/lib/billeting/movement-store"
+
+// PUT /api/movements/:id { assignments: { [armyNumber]: locationId } } - saves the planner's named allocation
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const user = await requirePermission("bookings:create")
+  if (user instanceof NextResponse) return user
+
+  const body = await request.json().catch(() => null)
+  const parsed = assignmentsSchema.safeParse(body?.assignments)
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Assignments must map Army Numbers to places." }, { status: 400 })
+  }
+
+  const movement = await saveAssignments(params.id, parsed.data)
+  if (!movement) {
+    return NextResponse.json({ error: "Movement not found." }, { status: 404 })
+  }
+  return NextResponse.json({ movement })
+}
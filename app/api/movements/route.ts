@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { requirePermission } from "@/lib/auth/session"
+import { movementInputSchema, parseNominalRoll } from "@/lib/billeting/nominal-roll"
+import { createMovement, listMovements } from "@/lib/billeting/movement-store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const user = await requirePermission("bookings:create")
+  if (user instanceof NextResponse) return user
+
+  return NextResponse.json({ movements: await listMovements() })
+}
+
+// The raw CSV is parsed again here, so a roll that slipped past the form is still rejected line by line
+export async function POST(request: Request) {
+  const user = await requirePermission("bookings:create")
+  if (user instanceof NextResponse) return user
+
+  const parsed = movementInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Please check the movement details.", fieldErrors: parsed.error.flatten().fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  const { personnel, errors } = parseNominalRoll(parsed.data.csv)
+  if (errors.length > 0) {
+    return NextResponse.json({ error: "The nominal roll has errors.", rowErrors: errors }, { status: 400 })
+  }
+
+  const movement = await createMovement(parsed.data.name, personnel, user.armyNumber)
+  return NextResponse.json({ movement }, { status: 201 })
+}
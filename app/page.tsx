@@ -1,13 +1,40 @@
 "use client"
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useMemo } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { AdminPanel } from "@/components/admin/admin-panel"
+import { AllocationPlanner } from "@/components/billeting/allocation-planner"
+import { BookingPanel } from "@/components/billeting/booking-panel"
+import { CapacityBadge } from "@/components/billeting/capacity-badge"
+import { TwoFactorEnroll } from "@/components/auth/two-factor-enroll"
+import { TwoFactorVerify } from "@/components/auth/two-factor-verify"
+import { CoordinateFormats } from "@/components/map/coordinate-formats"
+import { LocationSearch } from "@/components/map/location-search"
+import { PlaceDetailsDrawer } from "@/components/map/place-details-drawer"
+import { PlaceFilterSheet } from "@/components/map/place-filter-sheet"
+import { PlaceTypeIcon } from "@/components/map/place-type-icon"
+import { SearchRadiusControls } from "@/components/map/search-radius-controls"
+import { SlippyMap, type MapMarker, type MapView } from "@/components/map/slippy-map"
+import { TilePackManager } from "@/components/map/tile-pack-manager"
+import { useIdleTimeout } from "@/hooks/use-idle-timeout"
+import { hasPermission } from "@/lib/auth/roles"
+import { loginSchema, type LoginInput } from "@/lib/auth/schema"
+import type { CapacityRecord } from "@/lib/billeting/capacity"
+import { normalizeQuery, withCache } from "@/lib/cache/response-cache"
+import { getGeocodingProvider, type GeocodeResult } from "@/lib/geocoding"
+import { getCategory, getVisibleCategories, PLACE_TYPES, type PlaceCategory } from "@/lib/categories"
+import { boundsAround, boundsOf, calculateDistance } from "@/lib/geo"
+import { applyPlaceFilters, DEFAULT_PLACE_FILTERS, type PlaceFilters } from "@/lib/place-filters"
+import { DEFAULT_SEARCH_OPTIONS, fetchNearbyPlaces, type Location, type SearchOptions } from "@/lib/places"
+import { calculateRoute, type RouteData } from "@/lib/routing"
+import type { SessionUser } from "@/lib/auth/user-store"
 import {
   MapPin,
   Shield,
-  Users,
-  Truck,
   Loader2,
   Navigation,
   Clock,
@@ -16,51 +43,90 @@ import {
   RefreshCw,
   Wifi,
   WifiOff,
+  Settings,
+  LogOut,
+  Database,
+  Users,
+  LocateFixed,
+  HardDriveDownload,
+  Search,
 } from "lucide-react"
 
-interface Location {
-  id: string
-  name: string
-  lat: number
-  lng: number
-  address: string
-  type: "hotel" | "school"
-  rating?: number
-}
-
-interface RouteData {
-  distance: string
-  duration: string
-  steps: Array<{
-    instruction: string
-    distance: string
-    duration: string
-  }>
-}
-
-type AppState = "login" | "location-request" | "category" | "map" | "navigation"
+type AppState =
+  | "login"
+  | "mfa"
+  | "mfa-enroll"
+  | "location-request"
+  | "category"
+  | "map"
+  | "navigation"
+  | "admin"
+  | "planner"
+  | "booking"
+  | "tile-packs"
 
 export default function RaturiApp() {
   const [appState, setAppState] = useState<AppState>("login")
-  const [armyNumber, setArmyNumber] = useState("")
-  const [password, setPassword] = useState("")
   const [loginError, setLoginError] = useState("")
-  const [selectedCategory, setSelectedCategory] = useState<"hotels" | "mt" | null>(null)
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null)
+  const loginForm = useForm<LoginInput>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { armyNumber: "", password: "" },
+  })
+  const [selectedCategory, setSelectedCategory] = useState<PlaceCategory | null>(null)
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null)
   const [locationError, setLocationError] = useState("")
-  const [searchQuery, setSearchQuery] = useState("")
   const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number } | null>(null)
   const [locations, setLocations] = useState<Location[]>([])
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS)
+  const [loadedRadiusKm, setLoadedRadiusKm] = useState<number | null>(null)
+  // Null fits the map to the loaded radius; set once the user pans or zooms
+  const [mapZoom, setMapZoom] = useState<number | null>(null)
+  const [viewRadiusKm, setViewRadiusKm] = useState<number | null>(null)
+  // Where the loaded places were searched, widened to the view it was searched from
+  const [searchedArea, setSearchedArea] = useState<{ center: { lat: number; lng: number }; radiusKm: number } | null>(
+    null,
+  )
+  const [placeFilters, setPlaceFilters] = useState<PlaceFilters>(DEFAULT_PLACE_FILTERS)
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null)
+  // Shown in the details drawer before the user commits to navigating there
+  const [previewLocation, setPreviewLocation] = useState<Location | null>(null)
+  const [bookingLocation, setBookingLocation] = useState<Location | null>(null)
   const [routeData, setRouteData] = useState<RouteData | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [mapError, setMapError] = useState("")
   const [routeError, setRouteError] = useState("")
   const [isOnline, setIsOnline] = useState(true)
   const [retryCount, setRetryCount] = useState(0)
-
-  const mapCanvasRef = useRef<HTMLCanvasElement>(null)
-  const navCanvasRef = useRef<HTMLCanvasElement>(null)
+  const [servedFromCache, setServedFromCache] = useState(false)
+
+  const visibleLocations = useMemo(
+    () => applyPlaceFilters(locations, placeFilters, userLocation),
+    [locations, placeFilters, userLocation],
+  )
+
+  // The whole route, and both ends even where the road stops short of them
+  const routeBounds = useMemo(
+    () =>
+      userLocation && selectedLocation
+        ? boundsOf([userLocation, selectedLocation, ...(routeData?.geometry ?? [])])
+        : null,
+    [userLocation, selectedLocation, routeData],
+  )
+
+  const placeMarker = (location: Location): MapMarker => ({
+    id: location.id,
+    position: location,
+    variant: "place",
+    color: PLACE_TYPES[location.type].pinColor,
+    label: location.name,
+  })
+
+  const userMarker = (position: { lat: number; lng: number }): MapMarker => ({
+    id: "user",
+    position,
+    variant: "user",
+  })
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true)
@@ -75,233 +141,109 @@ export default function RaturiApp() {
     }
   }, [])
 
-  const geocodeLocation = async (query: string): Promise<{ lat: number; lng: number } | null> => {
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=1`,
-      )
-      const data = await response.json()
-
-      if (data && data.length > 0) {
-        return {
-          lat: Number.parseFloat(data[0].lat),
-          lng: Number.parseFloat(data[0].lon),
-        }
-      }
-      return null
-    } catch (error) {
-      console.error("Geocoding error:", error)
-      return null
-    }
+  const geocodeLocation = async (query: string, signal?: AbortSignal): Promise<GeocodeResult[]> => {
+    const { value } = await withCache(
+      {
+        namespace: "geocode",
+        key: normalizeQuery(query),
+        ttlMs: 30 * 24 * 60 * 60 * 1000, // place names rarely move
+        maxEntries: 200,
+        shouldCache: (results) => results.length > 0,
+      },
+      () => getGeocodingProvider().search(query, { limit: 8, signal }),
+    )
+    return value
   }
 
-  const fetchNearbyPlaces = async (lat: number, lng: number, type: "hotel" | "school"): Promise<Location[]> => {
-    try {
-      const radius = 5000 // 5km radius
-      const overpassQuery =
-        type === "hotel"
-          ? `[out:json][timeout:25];(node["tourism"="hotel"](around:${radius},${lat},${lng});way["tourism"="hotel"](around:${radius},${lat},${lng});relation["tourism"="hotel"](around:${radius},${lat},${lng}););out center meta;`
-          : `[out:json][timeout:25];(node["amenity"="school"](around:${radius},${lat},${lng});way["amenity"="school"](around:${radius},${lat},${lng});relation["amenity"="school"](around:${radius},${lat},${lng}););out center meta;`
-
-      const response = await fetch("https://overpass-api.de/api/interpreter", {
-        method: "POST",
-        body: overpassQuery,
+  // Resume an existing session instead of asking for credentials again
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then(async (response) => {
+        if (!response.ok) return
+        const data = await response.json()
+        setCurrentUser(data.user)
+        setAppState((state) => (state === "login" ? "location-request" : state))
       })
+      .catch((error) => console.error("Session check error:", error))
+  }, [])
 
-      const data = await response.json()
-
-      return data.elements.slice(0, 10).map((element: any, index: number) => ({
-        id: element.id?.toString() || `${type}-${index}`,
-        name: element.tags?.name || `${type === "hotel" ? "Hotel" : "School"} ${index + 1}`,
-        lat: element.lat || element.center?.lat || lat,
-        lng: element.lon || element.center?.lon || lng,
-        address: element.tags?.["addr:full"] || element.tags?.["addr:street"] || "Address not available",
-        type: type,
-        rating: element.tags?.stars ? Number.parseFloat(element.tags.stars) : undefined,
-      }))
-    } catch (error) {
-      console.error("Error fetching places:", error)
-      // Return fallback data if API fails
-      return generateFallbackLocations(lat, lng, type)
-    }
-  }
-
-  const generateFallbackLocations = (lat: number, lng: number, type: "hotel" | "school"): Location[] => {
-    const baseNames =
-      type === "hotel"
-        ? ["Grand Hotel", "Royal Inn", "City Lodge", "Palace Hotel", "Crown Plaza"]
-        : ["Delhi Public School", "Kendriya Vidyalaya", "Army School", "St. Mary's School", "Modern School"]
-
-    return baseNames.map((name, index) => ({
-      id: `fallback-${type}-${index}`,
-      name,
-      lat: lat + (Math.random() - 0.5) * 0.02,
-      lng: lng + (Math.random() - 0.5) * 0.02,
-      address: `${name} Address, Delhi`,
-      type,
-      rating: 3 + Math.random() * 2,
-    }))
-  }
+  const handleLogin = async (values: LoginInput) => {
+    setIsLoading(true)
+    setLoginError("")
 
-  const calculateRoute = async (
-    start: { lat: number; lng: number },
-    end: { lat: number; lng: number },
-  ): Promise<RouteData> => {
     try {
-      // Try OSRM API for routing
-      const response = await fetch(
-        `https://router.project-osrm.org/route/v1/driving/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&steps=true`,
-      )
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      })
 
       if (response.ok) {
         const data = await response.json()
-        const route = data.routes[0]
-
-        return {
-          distance: `${(route.distance / 1000).toFixed(1)} km`,
-          duration: `${Math.round(route.duration / 60)} min`,
-          steps: route.legs[0].steps.slice(0, 8).map((step: any) => ({
-            instruction: step.maneuver.instruction || "Continue straight",
-            distance: `${(step.distance / 1000).toFixed(1)} km`,
-            duration: `${Math.round(step.duration / 60)} min`,
-          })),
+        loginForm.resetField("password")
+        setAppState(data.status === "mfa_required" ? "mfa" : "mfa-enroll")
+      } else {
+        const data = await response.json().catch(() => null)
+        // Surface server-side schema errors on the matching fields
+        const fieldErrors: Partial<Record<keyof LoginInput, string[]>> = data?.fieldErrors ?? {}
+        for (const [field, messages] of Object.entries(fieldErrors)) {
+          if (messages?.[0]) loginForm.setError(field as keyof LoginInput, { message: messages[0] })
         }
+        setLoginError(data?.error || "Invalid credentials. Please check your Army Number and Password.")
       }
     } catch (error) {
-      console.error("Routing error:", error)
+      setLoginError("Login failed. Please check your connection and try again.")
+      console.error("Login error:", error)
     }
 
-    // Fallback calculation
-    const distance = calculateDistance(start.lat, start.lng, end.lat, end.lng)
-    const duration = Math.round(distance * 2) // Rough estimate: 2 min per km
-
-    return {
-      distance: `${distance.toFixed(1)} km`,
-      duration: `${duration} min`,
-      steps: [
-        {
-          instruction: "Head towards destination",
-          distance: `${(distance * 0.3).toFixed(1)} km`,
-          duration: `${Math.round(duration * 0.3)} min`,
-        },
-        {
-          instruction: "Continue on main road",
-          distance: `${(distance * 0.4).toFixed(1)} km`,
-          duration: `${Math.round(duration * 0.4)} min`,
-        },
-        {
-          instruction: "Turn towards destination",
-          distance: `${(distance * 0.2).toFixed(1)} km`,
-          duration: `${Math.round(duration * 0.2)} min`,
-        },
-        {
-          instruction: "Arrive at destination",
-          distance: `${(distance * 0.1).toFixed(1)} km`,
-          duration: `${Math.round(duration * 0.1)} min`,
-        },
-      ],
-    }
+    setIsLoading(false)
   }
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371 // Earth's radius in km
-    const dLat = ((lat2 - lat1) * Math.PI) / 180
-    const dLon = ((lon2 - lon1) * Math.PI) / 180
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
+  const completeLogin = (user: SessionUser) => {
+    setCurrentUser(user)
+    setLoginError("")
+    setAppState("location-request")
   }
 
-  const drawMap = (
-    canvas: HTMLCanvasElement,
-    center: { lat: number; lng: number },
-    locations: Location[],
-    userLoc?: { lat: number; lng: number },
-  ) => {
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    const width = canvas.width
-    const height = canvas.height
-
-    // Clear canvas
-    ctx.fillStyle = "#1f2937"
-    ctx.fillRect(0, 0, width, height)
-
-    // Draw grid
-    ctx.strokeStyle = "#374151"
-    ctx.lineWidth = 1
-    for (let i = 0; i < width; i += 50) {
-      ctx.beginPath()
-      ctx.moveTo(i, 0)
-      ctx.lineTo(i, height)
-      ctx.stroke()
-    }
-    for (let i = 0; i < height; i += 50) {
-      ctx.beginPath()
-      ctx.moveTo(0, i)
-      ctx.lineTo(width, i)
-      ctx.stroke()
-    }
-
-    // Calculate bounds
-    const latRange = 0.02 // ~2km
-    const lngRange = 0.02
-
-    // Draw user location
-    if (userLoc) {
-      const x = ((userLoc.lng - (center.lng - lngRange / 2)) / lngRange) * width
-      const y = height - ((userLoc.lat - (center.lat - latRange / 2)) / latRange) * height
-
-      ctx.fillStyle = "#10b981"
-      ctx.beginPath()
-      ctx.arc(x, y, 8, 0, 2 * Math.PI)
-      ctx.fill()
-
-      ctx.fillStyle = "#ffffff"
-      ctx.beginPath()
-      ctx.arc(x, y, 3, 0, 2 * Math.PI)
-      ctx.fill()
+  const handleLogout = async (reason?: "idle") => {
+    try {
+      await fetch("/api/auth/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      })
+    } catch (error) {
+      console.error("Logout error:", error)
     }
 
-    // Draw location pins
-    locations.forEach((location) => {
-      const x = ((location.lng - (center.lng - lngRange / 2)) / lngRange) * width
-      const y = height - ((location.lat - (center.lat - latRange / 2)) / latRange) * height
-
-      ctx.fillStyle = location.type === "hotel" ? "#f59e0b" : "#8b5cf6"
-      ctx.beginPath()
-      ctx.arc(x, y, 6, 0, 2 * Math.PI)
-      ctx.fill()
-
-      ctx.fillStyle = "#ffffff"
-      ctx.font = "10px sans-serif"
-      ctx.fillText(location.name.substring(0, 15), x + 10, y + 3)
-    })
+    // The next person to sign in on this device must not find anything the last one had open
+    setCurrentUser(null)
+    loginForm.reset()
+    setSelectedCategory(null)
+    setUserLocation(null)
+    setLocationError("")
+    setMapCenter(null)
+    setLocations([])
+    setSearchOptions(DEFAULT_SEARCH_OPTIONS)
+    setLoadedRadiusKm(null)
+    setMapZoom(null)
+    setViewRadiusKm(null)
+    setSearchedArea(null)
+    setPlaceFilters(DEFAULT_PLACE_FILTERS)
+    setSelectedLocation(null)
+    setPreviewLocation(null)
+    setBookingLocation(null)
+    setRouteData(null)
+    setIsLoading(false)
+    setMapError("")
+    setRouteError("")
+    setRetryCount(0)
+    setServedFromCache(false)
+    setLoginError(reason === "idle" ? "Your session expired due to inactivity. Please log in again." : "")
+    setAppState("login")
   }
 
-  useEffect(() => {
-    if (appState === "map" && mapCanvasRef.current && mapCenter) {
-      drawMap(mapCanvasRef.current, mapCenter, locations, userLocation)
-    }
-  }, [appState, mapCenter, locations, userLocation])
-
-  useEffect(() => {
-    if (appState === "navigation" && navCanvasRef.current && userLocation && selectedLocation) {
-      drawMap(navCanvasRef.current, userLocation, selectedLocation ? [selectedLocation] : [], userLocation)
-    }
-  }, [appState, userLocation, selectedLocation])
-
-  const handleLogin = () => {
-    if (armyNumber === "LAS1BC4" && password === "lakshay123") {
-      setLoginError("")
-      setAppState("location-request")
-    } else {
-      setLoginError("Invalid credentials. Please check your Army Number and Password.")
-    }
-  }
+  useIdleTimeout(!!currentUser, () => handleLogout("idle"))
 
   const requestLocation = () => {
     setLocationError("")
@@ -336,15 +278,63 @@ export default function RaturiApp() {
     }
   }
 
-  const selectCategory = async (category: "hotels" | "mt") => {
+  const loadPlaces = async (
+    center: { lat: number; lng: number },
+    category: PlaceCategory,
+    options: SearchOptions = searchOptions,
+    keepView = false,
+  ) => {
+    const { value, fromCache } = await fetchNearbyPlaces(center.lat, center.lng, category, options)
+    setLocations(value.locations)
+    setLoadedRadiusKm(value.radiusKm)
+    setServedFromCache(fromCache)
+
+    const viewedRadiusKm = keepView && viewRadiusKm !== null ? viewRadiusKm : value.radiusKm
+    setSearchedArea({ center, radiusKm: Math.max(value.radiusKm, viewedRadiusKm) })
+    if (!keepView) {
+      setMapZoom(null)
+      setViewRadiusKm(null)
+    }
+  }
+
+  const changeMapView = (view: MapView) => {
+    setMapCenter(view.center)
+    setMapZoom(view.zoom)
+    setViewRadiusKm(view.radiusKm)
+  }
+
+  // Part of the view lies outside the area the loaded places came from
+  const viewLeftSearchedArea =
+    !!searchedArea &&
+    !!mapCenter &&
+    viewRadiusKm !== null &&
+    calculateDistance(searchedArea.center.lat, searchedArea.center.lng, mapCenter.lat, mapCenter.lng) + viewRadiusKm >
+      searchedArea.radiusKm * 1.1
+
+  const searchThisArea = async () => {
+    if (!selectedCategory || !mapCenter) return
+
+    setIsLoading(true)
+    setMapError("")
+
+    try {
+      await loadPlaces(mapCenter, selectedCategory, searchOptions, true)
+    } catch (error) {
+      setMapError("Failed to load locations. Please try again.")
+      console.error("Error fetching places:", error)
+    }
+
+    setIsLoading(false)
+  }
+
+  const selectCategory = async (category: PlaceCategory) => {
     setSelectedCategory(category)
     setIsLoading(true)
     setMapError("")
 
     if (mapCenter) {
       try {
-        const places = await fetchNearbyPlaces(mapCenter.lat, mapCenter.lng, category === "hotels" ? "hotel" : "school")
-        setLocations(places)
+        await loadPlaces(mapCenter, category)
         setAppState("map")
       } catch (error) {
         setMapError("Failed to load locations. Please try again.")
@@ -355,45 +345,61 @@ export default function RaturiApp() {
     setIsLoading(false)
   }
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) return
+  const changeSearchOptions = async (options: SearchOptions) => {
+    setSearchOptions(options)
+    if (!selectedCategory || !mapCenter) return
 
     setIsLoading(true)
     setMapError("")
 
     try {
-      const coordinates = await geocodeLocation(searchQuery)
-      if (coordinates) {
-        setMapCenter(coordinates)
-        if (selectedCategory) {
-          const places = await fetchNearbyPlaces(
-            coordinates.lat,
-            coordinates.lng,
-            selectedCategory === "hotels" ? "hotel" : "school",
-          )
-          setLocations(places)
-        }
-      } else {
-        setMapError("Location not found. Please try a different search term.")
-      }
+      await loadPlaces(mapCenter, selectedCategory, options)
+    } catch (error) {
+      setMapError("Failed to load locations. Please try again.")
+      console.error("Error fetching places:", error)
+    }
+
+    setIsLoading(false)
+  }
+
+  const selectSearchResult = async (result: GeocodeResult) => {
+    const coordinates = { lat: result.lat, lng: result.lng }
+    setMapCenter(coordinates)
+
+    if (!selectedCategory) return
+
+    setIsLoading(true)
+    setMapError("")
+
+    try {
+      await loadPlaces(coordinates, selectedCategory)
     } catch (error) {
-      setMapError("Search failed. Please check your connection and try again.")
-      console.error("Search error:", error)
+      setMapError("Failed to load locations. Please try again.")
+      console.error("Error fetching places:", error)
     }
 
     setIsLoading(false)
   }
 
+  const updateCapacityRecord = (locationId: string, record: CapacityRecord | undefined) => {
+    const update = (location: Location) => (location.id === locationId ? { ...location, billeting: record } : location)
+    setLocations((current) => current.map(update))
+    setPreviewLocation((current) => current && update(current))
+  }
+
   const selectLocationPin = async (location: Location) => {
+    let navigated = false
     setSelectedLocation(location)
     setIsLoading(true)
     setRouteError("")
 
     if (userLocation) {
       try {
-        const route = await calculateRoute(userLocation, { lat: location.lat, lng: location.lng })
+        const { value: route, fromCache } = await calculateRoute(userLocation, { lat: location.lat, lng: location.lng })
         setRouteData(route)
+        setServedFromCache(fromCache)
         setAppState("navigation")
+        navigated = true
       } catch (error) {
         setRouteError("Failed to calculate route. Please try again.")
         console.error("Route calculation error:", error)
@@ -401,6 +407,7 @@ export default function RaturiApp() {
     }
 
     setIsLoading(false)
+    return navigated
   }
 
   const handleRetry = () => {
@@ -424,42 +431,73 @@ export default function RaturiApp() {
             <CardTitle className="text-2xl font-bold text-white">Raturi App</CardTitle>
             <p className="text-gray-400">Military Logistics System</p>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">Army Number</label>
-              <Input
-                type="text"
-                value={armyNumber}
-                onChange={(e) => setArmyNumber(e.target.value)}
-                className="bg-gray-700 border-gray-600 text-white"
-                placeholder="Enter Army Number"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">Password</label>
-              <Input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="bg-gray-700 border-gray-600 text-white"
-                placeholder="Enter Password"
-              />
-            </div>
-            {loginError && (
-              <div className="flex items-center gap-2 text-red-400 text-sm">
-                <AlertCircle className="h-4 w-4" />
-                {loginError}
-              </div>
-            )}
-            <Button onClick={handleLogin} className="w-full bg-green-600 hover:bg-green-700">
-              Login
-            </Button>
+          <CardContent>
+            <Form {...loginForm}>
+              <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4" noValidate>
+                <FormField
+                  control={loginForm.control}
+                  name="armyNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-300">Army Number</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          autoComplete="username"
+                          autoCapitalize="characters"
+                          className="bg-gray-700 border-gray-600 text-white"
+                          placeholder="e.g. IC-56789K"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={loginForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-300">Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="current-password"
+                          className="bg-gray-700 border-gray-600 text-white"
+                          placeholder="Enter Password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400" />
+                    </FormItem>
+                  )}
+                />
+                {loginError && (
+                  <div className="flex items-center gap-2 text-red-400 text-sm">
+                    <AlertCircle className="h-4 w-4" />
+                    {loginError}
+                  </div>
+                )}
+                <Button type="submit" disabled={isLoading} className="w-full bg-green-600 hover:bg-green-700">
+                  {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Login"}
+                </Button>
+              </form>
+            </Form>
           </CardContent>
         </Card>
       </div>
     )
   }
 
+  if (appState === "mfa") {
+    return <TwoFactorVerify onVerified={completeLogin} onCancel={() => handleLogout()} />
+  }
+
+  if (appState === "mfa-enroll") {
+    return <TwoFactorEnroll onEnrolled={completeLogin} onCancel={() => handleLogout()} />
+  }
+
   if (appState === "location-request") {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
@@ -485,7 +523,37 @@ export default function RaturiApp() {
     )
   }
 
+  if (appState === "admin" && currentUser && hasPermission(currentUser.role, "admin:access")) {
+    return <AdminPanel currentUser={currentUser} onBack={() => setAppState("category")} />
+  }
+
+  if (appState === "planner" && hasPermission(currentUser?.role, "bookings:create")) {
+    return (
+      <AllocationPlanner
+        locations={locations}
+        userLocation={userLocation}
+        mapCenter={mapCenter}
+        onBack={() => setAppState("map")}
+      />
+    )
+  }
+
+  if (appState === "booking" && bookingLocation && hasPermission(currentUser?.role, "bookings:create")) {
+    return <BookingPanel location={bookingLocation} onBack={() => setAppState("map")} />
+  }
+
+  if (appState === "tile-packs" && mapCenter) {
+    return (
+      <TilePackManager
+        bounds={boundsAround(mapCenter, viewRadiusKm ?? loadedRadiusKm ?? searchOptions.radiusKm)}
+        onBack={() => setAppState("map")}
+      />
+    )
+  }
+
   if (appState === "category") {
+    const visibleCategories = getVisibleCategories(currentUser?.role)
+
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
         <Card className="w-full max-w-md bg-gray-800 border-gray-700">
@@ -494,30 +562,40 @@ export default function RaturiApp() {
             <p className="text-gray-400">Choose the type of service you need</p>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Button
-              onClick={() => selectCategory("hotels")}
-              disabled={isLoading}
-              className="w-full h-16 bg-amber-600 hover:bg-amber-700 flex items-center justify-center gap-3"
-            >
-              {isLoading && selectedCategory === "hotels" ? (
-                <Loader2 className="h-6 w-6 animate-spin" />
-              ) : (
-                <Users className="h-6 w-6" />
-              )}
-              <span className="text-lg">Hotels For Troops</span>
-            </Button>
-            <Button
-              onClick={() => selectCategory("mt")}
-              disabled={isLoading}
-              className="w-full h-16 bg-purple-600 hover:bg-purple-700 flex items-center justify-center gap-3"
-            >
-              {isLoading && selectedCategory === "mt" ? (
-                <Loader2 className="h-6 w-6 animate-spin" />
-              ) : (
-                <Truck className="h-6 w-6" />
-              )}
-              <span className="text-lg">MT Services</span>
-            </Button>
+            {visibleCategories.length === 0 && (
+              <div className="flex items-center gap-2 text-yellow-400 text-sm">
+                <AlertCircle className="h-4 w-4" />
+                Your role has no services assigned. Contact an administrator.
+              </div>
+            )}
+            {visibleCategories.map((category) => {
+              const { label, icon: Icon, buttonClassName } = getCategory(category)
+              return (
+                <Button
+                  key={category}
+                  onClick={() => selectCategory(category)}
+                  disabled={isLoading}
+                  className={`w-full h-16 ${buttonClassName} flex items-center justify-center gap-3`}
+                >
+                  {isLoading && selectedCategory === category ? (
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  ) : (
+                    <Icon className="h-6 w-6" />
+                  )}
+                  <span className="text-lg">{label}</span>
+                </Button>
+              )
+            })}
+            {hasPermission(currentUser?.role, "admin:access") && (
+              <Button
+                onClick={() => setAppState("admin")}
+                variant="outline"
+                className="w-full border-gray-600 text-gray-300 flex items-center justify-center gap-2"
+              >
+                <Settings className="h-4 w-4" />
+                User Administration
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -538,27 +616,46 @@ export default function RaturiApp() {
               ← Back
             </Button>
             <h1 className="text-lg font-semibold text-white">
-              {selectedCategory === "hotels" ? "Hotels" : "Schools"} Near You
+              {selectedCategory && getCategory(selectedCategory).title} Near You
             </h1>
             <div className="flex items-center gap-2">
               {!isOnline && <WifiOff className="h-4 w-4 text-red-400" />}
               {isOnline && <Wifi className="h-4 w-4 text-green-400" />}
+              {servedFromCache && (
+                <span title="Served from cache" className="flex items-center gap-1 text-xs text-amber-400">
+                  <Database className="h-4 w-4" />
+                  Cached
+                </span>
+              )}
+              <Button
+                onClick={() => setAppState("tile-packs")}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-gray-300 hover:text-white hover:bg-gray-700"
+                aria-label="Offline maps"
+                title="Offline maps"
+              >
+                <HardDriveDownload className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => handleLogout()}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-gray-300 hover:text-white hover:bg-gray-700"
+                aria-label="Log out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
           </div>
 
-          <div className="flex gap-2">
-            <Input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search location..."
-              className="bg-gray-700 border-gray-600 text-white"
-              onKeyPress={(e) => e.key === "Enter" && handleSearch()}
-            />
-            <Button onClick={handleSearch} disabled={isLoading} className="bg-green-600 hover:bg-green-700">
-              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Search"}
-            </Button>
-          </div>
+          <LocationSearch search={geocodeLocation} onSelect={selectSearchResult} disabled={isLoading} />
+          <SearchRadiusControls
+            options={searchOptions}
+            loadedRadiusKm={loadedRadiusKm}
+            onChange={changeSearchOptions}
+            disabled={isLoading}
+          />
         </div>
 
         <div className="flex-1 p-4">
@@ -573,42 +670,94 @@ export default function RaturiApp() {
                 </Button>
               </div>
             ) : (
-              <canvas
-                ref={mapCanvasRef}
-                width={400}
-                height={300}
-                className="w-full h-full rounded cursor-pointer"
-                onClick={(e) => {
-                  const rect = e.currentTarget.getBoundingClientRect()
-                  const x = e.clientX - rect.left
-                  const y = e.clientY - rect.top
-
-                  // Simple click detection for locations
-                  locations.forEach((location) => {
-                    if (mapCenter) {
-                      const latRange = 0.02
-                      const lngRange = 0.02
-                      const locX = ((location.lng - (mapCenter.lng - lngRange / 2)) / lngRange) * rect.width
-                      const locY =
-                        rect.height - ((location.lat - (mapCenter.lat - latRange / 2)) / latRange) * rect.height
-
-                      if (Math.abs(x - locX) < 15 && Math.abs(y - locY) < 15) {
-                        selectLocationPin(location)
-                      }
-                    }
-                  })
-                }}
-              />
+              mapCenter && (
+                <SlippyMap
+                  center={mapCenter}
+                  zoom={mapZoom}
+                  radiusKm={loadedRadiusKm ?? searchOptions.radiusKm}
+                  onViewChange={changeMapView}
+                  offline={!isOnline}
+                  markers={[...(userLocation ? [userMarker(userLocation)] : []), ...visibleLocations.map(placeMarker)]}
+                  selectedId={(previewLocation ?? selectedLocation)?.id}
+                  onMarkerClick={async (id) => {
+                    const location = visibleLocations.find((candidate) => candidate.id === id)
+                    // Without a route the drawer opens instead, showing why and offering another try
+                    if (location && !(await selectLocationPin(location))) setPreviewLocation(location)
+                  }}
+                  className="w-full h-full rounded"
+                >
+                  {viewLeftSearchedArea && (
+                    <Button
+                      onClick={searchThisArea}
+                      disabled={isLoading}
+                      size="sm"
+                      className="absolute top-2 left-1/2 -translate-x-1/2 bg-green-600 hover:bg-green-700 shadow"
+                    >
+                      {isLoading ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Search className="h-4 w-4 mr-2" />
+                      )}
+                      Search this area
+                    </Button>
+                  )}
+                  {userLocation && (
+                    <Button
+                      onClick={() => setMapCenter(userLocation)}
+                      size="icon"
+                      variant="outline"
+                      className="absolute bottom-6 right-2 h-9 w-9 border-gray-600 bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white shadow"
+                      aria-label="Recenter on me"
+                      title="Recenter on me"
+                    >
+                      <LocateFixed className="h-4 w-4" />
+                    </Button>
+                  )}
+                </SlippyMap>
+              )
             )}
           </div>
 
           {locations.length > 0 && (
-            <div className="mt-4 space-y-2 max-h-40 overflow-y-auto">
-              {locations.map((location) => (
+            <div className="mt-4 flex items-center justify-between">
+              <span className="text-sm text-gray-400">
+                {visibleLocations.length} of {locations.length} places
+              </span>
+              <div className="flex items-center gap-2">
+                {hasPermission(currentUser?.role, "bookings:create") && (
+                  <Button
+                    onClick={() => setAppState("planner")}
+                    variant="outline"
+                    size="sm"
+                    className="border-gray-600 text-gray-300"
+                  >
+                    <Users className="h-4 w-4 mr-2" />
+                    Plan allocation
+                  </Button>
+                )}
+                <PlaceFilterSheet
+                  filters={placeFilters}
+                  onChange={setPlaceFilters}
+                  hasUserLocation={!!userLocation}
+                  shownCount={visibleLocations.length}
+                  totalCount={locations.length}
+                />
+              </div>
+            </div>
+          )}
+
+          {visibleLocations.length > 0 && (
+            <div className="mt-2 space-y-2 max-h-40 overflow-y-auto">
+              {visibleLocations.map((location) => (
                 <div
                   key={location.id}
-                  onClick={() => selectLocationPin(location)}
-                  className="bg-gray-800 p-3 rounded-lg border border-gray-700 cursor-pointer hover:bg-gray-700 transition-colors"
+                  onClick={() => {
+                    setRouteError("")
+                    setPreviewLocation(location)
+                  }}
+                  className={`bg-gray-800 p-3 rounded-lg border cursor-pointer hover:bg-gray-700 transition-colors ${
+                    location.id === (previewLocation ?? selectedLocation)?.id ? "border-yellow-300" : "border-gray-700"
+                  }`}
                 >
                   <div className="flex items-center justify-between">
                     <div>
@@ -619,9 +768,8 @@ export default function RaturiApp() {
                       {location.rating && (
                         <span className="text-yellow-400 text-sm">★ {location.rating.toFixed(1)}</span>
                       )}
-                      <MapPin
-                        className={`h-4 w-4 ${location.type === "hotel" ? "text-amber-400" : "text-purple-400"}`}
-                      />
+                      <CapacityBadge location={location} />
+                      <PlaceTypeIcon type={location.type} />
                     </div>
                   </div>
                 </div>
@@ -629,6 +777,28 @@ export default function RaturiApp() {
             </div>
           )}
         </div>
+
+        <PlaceDetailsDrawer
+          location={previewLocation}
+          origin={userLocation}
+          onClose={() => setPreviewLocation(null)}
+          onNavigate={async (location) => {
+            if (await selectLocationPin(location)) setPreviewLocation(null)
+          }}
+          isLoading={isLoading}
+          error={routeError}
+          canEditCapacity={hasPermission(currentUser?.role, "locations:edit")}
+          onCapacityChange={updateCapacityRecord}
+          onBook={
+            hasPermission(currentUser?.role, "bookings:create")
+              ? (location) => {
+                  setPreviewLocation(null)
+                  setBookingLocation(location)
+                  setAppState("booking")
+                }
+              : undefined
+          }
+        />
       </div>
     )
   }
@@ -650,6 +820,21 @@ export default function RaturiApp() {
             <div className="flex items-center gap-2">
               {!isOnline && <WifiOff className="h-4 w-4 text-red-400" />}
               {isOnline && <Wifi className="h-4 w-4 text-green-400" />}
+              {servedFromCache && (
+                <span title="Served from cache" className="flex items-center gap-1 text-xs text-amber-400">
+                  <Database className="h-4 w-4" />
+                  Cached
+                </span>
+              )}
+              <Button
+                onClick={() => handleLogout()}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-gray-300 hover:text-white hover:bg-gray-700"
+                aria-label="Log out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
           </div>
 
@@ -657,6 +842,7 @@ export default function RaturiApp() {
             <div className="bg-gray-700 p-3 rounded-lg">
               <h2 className="font-medium text-white">{selectedLocation.name}</h2>
               <p className="text-sm text-gray-400">{selectedLocation.address}</p>
+              <CoordinateFormats position={selectedLocation} />
             </div>
           )}
         </div>
@@ -674,7 +860,16 @@ export default function RaturiApp() {
           ) : (
             <>
               <div className="bg-gray-800 rounded-lg p-4 h-48 border border-gray-700 mb-4">
-                <canvas ref={navCanvasRef} width={400} height={180} className="w-full h-full rounded" />
+                {userLocation && selectedLocation && (
+                  <SlippyMap
+                    center={userLocation}
+                    bounds={routeBounds}
+                    path={routeData?.geometry}
+                    offline={!isOnline}
+                    markers={[userMarker(userLocation), { ...placeMarker(selectedLocation), variant: "destination" }]}
+                    className="w-full h-full rounded"
+                  />
+                )}
               </div>
 
               {routeData && (
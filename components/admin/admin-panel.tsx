@@ -0,0 +1,187 @@
+"use client"
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ROLE_LABELS, ROLES, type Role } from "@/lib/auth/roles"
+import type { SessionUser } from "@/lib/auth/user-store"
+import { AlertCircle, Loader2, ShieldCheck, UserPlus } from "lucide-react"
+
+interface AdminUser extends SessionUser {
+  twoFactorEnabled: boolean
+}
+
+interface AdminPanelProps {
+  currentUser: SessionUser
+  onBack: () => void
+}
+
+export function AdminPanel({ currentUser, onBack }: AdminPanelProps) {
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [newArmyNumber, setNewArmyNumber] = useState("")
+  const [newPassword, setNewPassword] = useState("")
+  const [newRole, setNewRole] = useState<Role>("troop")
+  const [isCreating, setIsCreating] = useState(false)
+
+  useEffect(() => {
+    fetch("/api/admin/users")
+      .then(async (response) => {
+        const data = await response.json()
+        if (response.ok) setUsers(data.users)
+        else setError(data?.error || "Failed to load users.")
+      })
+      .catch((error) => {
+        setError("Failed to load users. Please check your connection.")
+        console.error("Admin users error:", error)
+      })
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const changeRole = async (user: AdminUser, role: Role) => {
+    setError("")
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setUsers((prev) => prev.map((existing) => (existing.id === user.id ? data.user : existing)))
+      } else {
+        setError(data?.error || "Failed to update role.")
+      }
+    } catch (error) {
+      setError("Failed to update role. Please check your connection.")
+      console.error("Role update error:", error)
+    }
+  }
+
+  const createUser = async () => {
+    setIsCreating(true)
+    setError("")
+    try {
+      const response = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ armyNumber: newArmyNumber, password: newPassword, role: newRole }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setUsers((prev) => [...prev, data.user])
+        setNewArmyNumber("")
+        setNewPassword("")
+        setNewRole("troop")
+      } else {
+        setError(data?.error || "Failed to create user.")
+      }
+    } catch (error) {
+      setError("Failed to create user. Please check your connection.")
+      console.error("User creation error:", error)
+    }
+    setIsCreating(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col">
+      <div className="bg-gray-800 p-4 border-b border-gray-700">
+        <div className="flex items-center justify-between">
+          <Button onClick={onBack} variant="outline" size="sm" className="border-gray-600 text-gray-300">
+            ← Back
+          </Button>
+          <h1 className="text-lg font-semibold text-white">User Administration</h1>
+          <ShieldCheck className="h-5 w-5 text-green-400" />
+        </div>
+      </div>
+
+      <div className="flex-1 p-4 space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+          <h2 className="font-medium text-white flex items-center gap-2">
+            <UserPlus className="h-5 w-5 text-green-400" />
+            Add User
+          </h2>
+          <Input
+            type="text"
+            value={newArmyNumber}
+            onChange={(e) => setNewArmyNumber(e.target.value)}
+            className="bg-gray-700 border-gray-600 text-white"
+            placeholder="Army Number"
+          />
+          <Input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className="bg-gray-700 border-gray-600 text-white"
+            placeholder="Initial password (min. 8 characters)"
+          />
+          <Select value={newRole} onValueChange={(value) => setNewRole(value as Role)}>
+            <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={createUser}
+            disabled={isCreating || !newArmyNumber || !newPassword}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create User"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-green-500" />
+            </div>
+          ) : (
+            users.map((user) => (
+              <div
+                key={user.id}
+                className="bg-gray-800 p-3 rounded-lg border border-gray-700 flex items-center justify-between gap-3"
+              >
+                <div>
+                  <h3 className="font-medium text-white">{user.armyNumber}</h3>
+                  <p className="text-sm text-gray-400">
+                    {user.twoFactorEnabled ? "Two-factor enabled" : "Two-factor not set up"}
+                  </p>
+                </div>
+                <Select
+                  value={user.role}
+                  onValueChange={(value) => changeRole(user, value as Role)}
+                  disabled={user.id === currentUser.id}
+                >
+                  <SelectTrigger className="w-44 bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import type { SessionUser } from "@/lib/auth/user-store"
+import { AlertCircle, Loader2, ShieldCheck } from "lucide-react"
+
+interface Enrollment {
+  secret: string
+  otpauthUri: string
+  qrCode: string
+}
+
+interface TwoFactorEnrollProps {
+  onEnrolled: (user: SessionUser) => void
+  onCancel: () => void
+}
+
+export function TwoFactorEnroll({ onEnrolled, onCancel }: TwoFactorEnrollProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [code, setCode] = useState("")
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    fetch("/api/auth/mfa/enroll", { method: "POST" })
+      .then(async (response) => {
+        const data = await response.json()
+        if (response.ok) setEnrollment(data)
+        else setError(data?.error || "Could not start two-factor enrollment.")
+      })
+      .catch((error) => {
+        setError("Could not start two-factor enrollment. Please check your connection.")
+        console.error("Enrollment error:", error)
+      })
+  }, [])
+
+  const activate = async (value: string) => {
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/auth/mfa/activate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: value }),
+      })
+      const data = await response.json().catch(() => null)
+
+      if (response.ok) {
+        setUser(data.user)
+        setBackupCodes(data.backupCodes)
+      } else {
+        setError(data?.error || "Invalid verification code.")
+        setCode("")
+      }
+    } catch (error) {
+      setError("Verification failed. Please check your connection and try again.")
+      console.error("Activation error:", error)
+    }
+
+    setIsLoading(false)
+  }
+
+  if (backupCodes && user) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-gray-800 border-gray-700">
+          <CardHeader className="text-center">
+            <ShieldCheck className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <CardTitle className="text-xl font-bold text-white">Save Your Backup Codes</CardTitle>
+            <p className="text-gray-400">
+              Each code works once if you lose your authenticator. They will not be shown again.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 bg-gray-700 p-3 rounded-lg font-mono text-sm text-white">
+              {backupCodes.map((backupCode) => (
+                <span key={backupCode}>{backupCode}</span>
+              ))}
+            </div>
+            <Button onClick={() => onEnrolled(user)} className="w-full bg-green-600 hover:bg-green-700">
+              I have saved these codes
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-gray-800 border-gray-700">
+        <CardHeader className="text-center">
+          <ShieldCheck className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <CardTitle className="text-xl font-bold text-white">Set Up Two-Factor Login</CardTitle>
+          <p className="text-gray-400">Scan the code with an authenticator app, then enter the 6-digit code it shows</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {enrollment ? (
+            <>
+              <div className="flex justify-center">
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48 rounded bg-white" />
+              </div>
+              <div className="bg-gray-700 p-3 rounded-lg">
+                <p className="text-xs text-gray-400 mb-1">Or enter this key manually</p>
+                <p className="font-mono text-sm text-white break-all select-all">{enrollment.secret}</p>
+                <p className="text-xs text-gray-500 mt-2 break-all select-all">{enrollment.otpauthUri}</p>
+              </div>
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={activate} disabled={isLoading}>
+                  <InputOTPGroup className="text-white">
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} className="border-gray-600 bg-gray-700" />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            </>
+          ) : (
+            !error && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-green-500" />
+              </div>
+            )
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+          <Button
+            onClick={() => activate(code)}
+            disabled={isLoading || !enrollment || code.length !== 6}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Enable Two-Factor"}
+          </Button>
+          <button type="button" onClick={onCancel} className="w-full text-sm text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
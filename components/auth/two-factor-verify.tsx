@@ -0,0 +1,121 @@
+"use client"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import type { SessionUser } from "@/lib/auth/user-store"
+import { AlertCircle, KeyRound, Loader2 } from "lucide-react"
+
+interface TwoFactorVerifyProps {
+  onVerified: (user: SessionUser) => void
+  onCancel: () => void
+}
+
+export function TwoFactorVerify({ onVerified, onCancel }: TwoFactorVerifyProps) {
+  const [code, setCode] = useState("")
+  const [useBackupCode, setUseBackupCode] = useState(false)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const verify = async (value: string) => {
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/auth/mfa/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: value }),
+      })
+
+      const data = await response.json().catch(() => null)
+      if (response.ok) {
+        onVerified(data.user)
+        return
+      }
+      setError(data?.error || "Invalid verification code.")
+      setCode("")
+    } catch (error) {
+      setError("Verification failed. Please check your connection and try again.")
+      console.error("Verification error:", error)
+    }
+
+    setIsLoading(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-gray-800 border-gray-700">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <KeyRound className="h-12 w-12 text-green-500" />
+          </div>
+          <CardTitle className="text-xl font-bold text-white">Two-Factor Verification</CardTitle>
+          <p className="text-gray-400">
+            {useBackupCode ? "Enter one of your backup codes" : "Enter the 6-digit code from your authenticator app"}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {useBackupCode ? (
+            <Input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="bg-gray-700 border-gray-600 text-white"
+              placeholder="xxxxx-xxxxx"
+              autoComplete="one-time-code"
+              onKeyPress={(e) => e.key === "Enter" && verify(code)}
+            />
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={verify}
+                disabled={isLoading}
+                autoFocus
+              >
+                <InputOTPGroup className="text-white">
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} className="border-gray-600 bg-gray-700" />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 text-sm">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+          <Button
+            onClick={() => verify(code)}
+            disabled={isLoading || !code}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Verify"}
+          </Button>
+          <div className="flex justify-between text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                setUseBackupCode(!useBackupCode)
+                setCode("")
+                setError("")
+              }}
+              className="text-gray-400 hover:text-white"
+            >
+              {useBackupCode ? "Use authenticator code" : "Use a backup code"}
+            </button>
+            <button type="button" onClick={onCancel} className="text-gray-400 hover:text-white">
+              Cancel
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
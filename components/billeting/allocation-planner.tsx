@@ -0,0 +1,509 @@
+"use client"
+
+import { useEffect, useMemo, useState, type DragEvent } from "react"
+import { AlertCircle, GripVertical, Loader2, Upload, Users, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { NominalRollList } from "@/components/billeting/nominal-roll-list"
+import { RosterImport } from "@/components/billeting/roster-import"
+import {
+  emptyStrength,
+  GENDER_LABELS,
+  GENDERS,
+  getBilletGender,
+  moveTroops,
+  proposeAllocation,
+  RANK_GROUP_LABELS,
+  RANK_GROUPS,
+  sumCounts,
+  sumStrength,
+  type AllocationPlan,
+  type BilletCandidate,
+  type Gender,
+  type RankCounts,
+  type RankGroup,
+  type Strength,
+} from "@/lib/billeting/allocation"
+import { assignPersonnel, strengthOfRoll, type Movement } from "@/lib/billeting/nominal-roll"
+import type { LatLng } from "@/lib/coordinates"
+import { calculateDistance } from "@/lib/geo"
+import { getTroopCapacity, type Location } from "@/lib/places"
+
+interface AllocationPlannerProps {
+  locations: Location[]
+  userLocation: LatLng | null
+  mapCenter: LatLng | null
+  onBack: () => void
+}
+
+interface DraggedTroops {
+  from: string | null
+  gender: Gender
+  rankGroup: RankGroup
+}
+
+// A group tapped for moving; touch browsers have no drag and drop
+interface PickedTroops extends DraggedTroops {
+  count: string
+}
+
+const DRAG_TYPE = "application/x-raturi-troops"
+
+// Select value for planning from head counts alone
+const NO_MOVEMENT = "none"
+
+export function AllocationPlanner({ locations, userLocation, mapCenter, onBack }: AllocationPlannerProps) {
+  const [strength, setStrength] = useState<Strength>(emptyStrength)
+  const [assemblyKey, setAssemblyKey] = useState(userLocation ? "user" : "center")
+  const [plan, setPlan] = useState<AllocationPlan | null>(null)
+  const [message, setMessage] = useState("")
+  const [dropTarget, setDropTarget] = useState<string | null | undefined>(undefined)
+  const [picked, setPicked] = useState<PickedTroops | null>(null)
+  const [movements, setMovements] = useState<Movement[]>([])
+  const [movementId, setMovementId] = useState(NO_MOVEMENT)
+  const [isImporting, setIsImporting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [notice, setNotice] = useState("")
+
+  useEffect(() => {
+    fetch("/api/movements")
+      .then(async (response) => {
+        const data = await response.json()
+        if (response.ok) setMovements(data.movements)
+        else setMessage(data?.error || "Failed to load movements.")
+      })
+      .catch((error) => {
+        setMessage("Failed to load movements. Please check your connection.")
+        console.error("Movements error:", error)
+      })
+  }, [])
+
+  const movement = movements.find((existing) => existing.id === movementId)
+
+  // Anywhere the unit can form up: the user's own position, the map centre or one of the loaded places
+  const assemblyPoints = useMemo(() => {
+    const points: Array<{ key: string; label: string; position: LatLng }> = []
+    if (userLocation) points.push({ key: "user", label: "My location", position: userLocation })
+    if (mapCenter) points.push({ key: "center", label: "Map centre", position: mapCenter })
+    locations.forEach((location) => points.push({ key: location.id, label: location.name, position: location }))
+    return points
+  }, [userLocation, mapCenter, locations])
+
+  const assemblyPoint = assemblyPoints.find((point) => point.key === assemblyKey) ?? assemblyPoints[0]
+
+  const candidates = useMemo<BilletCandidate[]>(
+    () =>
+      locations.flatMap((location) => {
+        const capacity = getTroopCapacity(location)
+        if (!capacity || !assemblyPoint) return []
+        const { lat, lng } = assemblyPoint.position
+        return [
+          { locationId: location.id, capacity, distanceKm: calculateDistance(lat, lng, location.lat, location.lng) },
+        ]
+      }),
+    [locations, assemblyPoint],
+  )
+
+  const candidateById = Object.fromEntries(candidates.map((candidate) => [candidate.locationId, candidate]))
+  const capacities = Object.fromEntries(candidates.map((candidate) => [candidate.locationId, candidate.capacity]))
+  const locationName = (locationId: string) => locations.find((location) => location.id === locationId)?.name ?? ""
+  const withoutCapacity = locations.length - candidates.length
+
+  const updateStrength = (gender: Gender, rankGroup: RankGroup, value: string) => {
+    const count = Math.max(0, Number.parseInt(value, 10) || 0)
+    setStrength((current) => ({ ...current, [gender]: { ...current[gender], [rankGroup]: count } }))
+  }
+
+  const selectMovement = (id: string) => {
+    setMovementId(id)
+    setPlan(null)
+    setNotice("")
+    const selected = movements.find((existing) => existing.id === id)
+    setStrength(selected ? strengthOfRoll(selected.personnel) : emptyStrength())
+  }
+
+  const addMovement = (imported: Movement) => {
+    setMovements((current) => [imported, ...current])
+    setIsImporting(false)
+    setPlan(null)
+    setMovementId(imported.id)
+    setStrength(strengthOfRoll(imported.personnel))
+  }
+
+  const propose = () => {
+    setMessage("")
+    setNotice("")
+    setPlan(proposeAllocation(strength, candidates))
+  }
+
+  // Named personnel follow the head counts, so they are re-derived after every drag
+  const named = movement && plan ? assignPersonnel(plan, movement.personnel) : null
+
+  const saveAssignments = async () => {
+    if (!movement || !named) return
+    setIsSaving(true)
+    setMessage("")
+    setNotice("")
+
+    const assignments = Object.fromEntries(
+      Object.entries(named.byLocation).flatMap(([locationId, personnel]) =>
+        personnel.map((person) => [person.armyNumber, locationId]),
+      ),
+    )
+    try {
+      const response = await fetch(`/api/movements/${movement.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ assignments }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setMovements((current) => current.map((existing) => (existing.id === movement.id ? data.movement : existing)))
+        setNotice("Billet assignments saved. Book each billet to hand over its nominal roll.")
+      } else {
+        setMessage(data.error || "Failed to save assignments.")
+      }
+    } catch (error) {
+      setMessage("Failed to save assignments. Please check your connection.")
+      console.error("Assignment save error:", error)
+    }
+
+    setIsSaving(false)
+  }
+
+  const startDrag = (event: DragEvent, troops: DraggedTroops) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(troops))
+    event.dataTransfer.effectAllowed = "move"
+  }
+
+  // Moves `count` of the group, or all of it
+  const moveGroup = ({ from, gender, rankGroup }: DraggedTroops, to: string | null, count?: number) => {
+    if (!plan || from === to) return
+    const targetGender = to === null ? null : getBilletGender(plan, to)
+    if (targetGender && targetGender !== gender) {
+      setMessage(`${locationName(to!)} already houses ${GENDER_LABELS[targetGender].toLowerCase()} personnel.`)
+      return
+    }
+
+    const source = from === null ? plan.unallocated[gender] : plan.billets.find((b) => b.locationId === from)?.counts
+    const move = { from, to, gender, rankGroup, count: count ?? source?.[rankGroup] ?? 0 }
+    const next = moveTroops(plan, move, capacities)
+    setMessage(next === plan && to !== null ? `${locationName(to)} is full.` : "")
+    setPlan(next)
+  }
+
+  const dropOn = (event: DragEvent, to: string | null) => {
+    event.preventDefault()
+    setDropTarget(undefined)
+    moveGroup(JSON.parse(event.dataTransfer.getData(DRAG_TYPE)) as DraggedTroops, to)
+  }
+
+  // Any change to the plan leaves the picked group's numbers stale
+  useEffect(() => setPicked(null), [plan])
+
+  const moveHere = (to: string | null) => {
+    if (!picked) return
+    const count = Number.parseInt(picked.count, 10)
+    if (!(count > 0)) {
+      setMessage("Enter how many to move.")
+      return
+    }
+    moveGroup(picked, to, count)
+    setPicked(null)
+  }
+
+  const isPicked = (from: string | null, gender: Gender, rankGroup: RankGroup) =>
+    picked?.from === from && picked.gender === gender && picked.rankGroup === rankGroup
+
+  const renderMoveHere = (to: string | null, className = "w-full") =>
+    picked &&
+    picked.from !== to && (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => moveHere(to)}
+        className={`border-green-700 text-green-400 ${className}`}
+      >
+        Move here
+      </Button>
+    )
+
+  const dropZoneProps = (to: string | null) => ({
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes(DRAG_TYPE)) return
+      event.preventDefault()
+      setDropTarget(to)
+    },
+    onDragLeave: () => setDropTarget(undefined),
+    onDrop: (event: DragEvent) => dropOn(event, to),
+  })
+
+  const renderChips = (from: string | null, gender: Gender, counts: RankCounts) =>
+    RANK_GROUPS.filter((group) => counts[group] > 0).map((group) => (
+      <button
+        key={`${gender}-${group}`}
+        type="button"
+        draggable
+        onDragStart={(event) => startDrag(event, { from, gender, rankGroup: group })}
+        onClick={() =>
+          setPicked(
+            isPicked(from, gender, group) ? null : { from, gender, rankGroup: group, count: String(counts[group]) },
+          )
+        }
+        aria-pressed={isPicked(from, gender, group)}
+        className={`flex cursor-grab items-center gap-1 rounded px-2 py-1 text-xs text-gray-200 active:cursor-grabbing ${
+          isPicked(from, gender, group) ? "bg-green-700" : "bg-gray-700"
+        }`}
+      >
+        <GripVertical className="h-3 w-3 text-gray-500" />
+        {RANK_GROUP_LABELS[group]} × {counts[group]}
+        {from === null && <span className="text-gray-400">({GENDER_LABELS[gender]})</span>}
+      </button>
+    ))
+
+  const dropZoneClass = (to: string | null) =>
+    dropTarget === to ? "border-green-500 bg-gray-700/50" : "border-gray-700 bg-gray-800"
+
+  const usedBillets = plan
+    ? [...plan.billets].sort((a, b) => candidateById[a.locationId].distanceKm - candidateById[b.locationId].distanceKm)
+    : []
+  const spareBillets = candidates
+    .filter((candidate) => !plan?.billets.some((billet) => billet.locationId === candidate.locationId))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+  const unallocatedTotal = plan ? sumStrength(plan.unallocated) : 0
+  const farthestKm = Math.max(0, ...usedBillets.map((billet) => candidateById[billet.locationId].distanceKm))
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col">
+      <div className="bg-gray-800 p-4 border-b border-gray-700">
+        <div className="flex items-center justify-between">
+          <Button onClick={onBack} variant="outline" size="sm" className="border-gray-600 text-gray-300">
+            ← Back
+          </Button>
+          <h1 className="text-lg font-semibold text-white">Allocation Planner</h1>
+          <Users className="h-5 w-5 text-green-400" />
+        </div>
+      </div>
+
+      <div className="flex-1 p-4 space-y-4">
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-medium text-white">Movement</h2>
+            {!isImporting && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setIsImporting(true)}
+                className="text-gray-300 hover:text-white hover:bg-gray-700"
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                Import roll
+              </Button>
+            )}
+          </div>
+          {isImporting ? (
+            <RosterImport onImported={addMovement} onCancel={() => setIsImporting(false)} />
+          ) : (
+            <Select value={movementId} onValueChange={selectMovement}>
+              <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_MOVEMENT}>Head counts only</SelectItem>
+                {movements.map((existing) => (
+                  <SelectItem key={existing.id} value={existing.id}>
+                    {existing.name} ({existing.personnel.length})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+          <h2 className="font-medium text-white">Troop strength</h2>
+          <div className="grid grid-cols-[1fr_5rem_5rem] items-center gap-2 text-sm">
+            <span />
+            {GENDERS.map((gender) => (
+              <span key={gender} className="text-center text-gray-400">
+                {GENDER_LABELS[gender]}
+              </span>
+            ))}
+            {RANK_GROUPS.map((group) => (
+              <div key={group} className="contents">
+                <span className="text-gray-300">{RANK_GROUP_LABELS[group]}</span>
+                {GENDERS.map((gender) => (
+                  <Input
+                    key={gender}
+                    type="number"
+                    min={0}
+                    inputMode="numeric"
+                    value={strength[gender][group] || ""}
+                    onChange={(e) => updateStrength(gender, group, e.target.value)}
+                    className="bg-gray-700 border-gray-600 text-white text-center"
+                    aria-label={`${GENDER_LABELS[gender]} ${RANK_GROUP_LABELS[group]}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-sm text-gray-300">Assembly point</span>
+            <Select value={assemblyPoint?.key} onValueChange={setAssemblyKey}>
+              <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                <SelectValue placeholder="Choose an assembly point" />
+              </SelectTrigger>
+              <SelectContent>
+                {assemblyPoints.map((point) => (
+                  <SelectItem key={point.key} value={point.key}>
+                    {point.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {withoutCapacity > 0 && (
+            <p className="text-xs text-gray-500">
+              {withoutCapacity} of {locations.length} loaded places have no known capacity and are left out.
+            </p>
+          )}
+
+          <Button
+            onClick={propose}
+            disabled={sumStrength(strength) === 0 || candidates.length === 0}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            Propose allocation
+          </Button>
+        </div>
+
+        {message && (
+          <div className="flex items-center gap-2 text-red-400 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {message}
+          </div>
+        )}
+
+        {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+        {plan && (
+          <>
+            <p className="text-sm text-gray-300">
+              {usedBillets.length} billet{usedBillets.length === 1 ? "" : "s"}, farthest {farthestKm.toFixed(1)} km from
+              the assembly point. Drag groups between billets, or tap one and then Move here, to adjust.
+            </p>
+
+            {picked && (
+              <div className="sticky top-0 z-10 flex items-center gap-2 rounded-lg border border-green-700 bg-gray-800 p-3 text-sm text-gray-300">
+                <span className="flex-1">
+                  Move {RANK_GROUP_LABELS[picked.rankGroup]} ({GENDER_LABELS[picked.gender]}) from{" "}
+                  {picked.from === null ? "unallocated" : locationName(picked.from)}
+                </span>
+                <Input
+                  type="number"
+                  min={1}
+                  inputMode="numeric"
+                  value={picked.count}
+                  onChange={(e) => setPicked({ ...picked, count: e.target.value })}
+                  className="w-20 bg-gray-700 border-gray-600 text-white text-center"
+                  aria-label="How many to move"
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setPicked(null)}
+                  className="h-8 w-8 text-gray-400 hover:text-white hover:bg-gray-700"
+                  aria-label="Cancel move"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {movement && named && (
+              <Button
+                onClick={saveAssignments}
+                disabled={isSaving || usedBillets.length === 0}
+                className="w-full bg-green-600 hover:bg-green-700"
+              >
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save billet assignments
+              </Button>
+            )}
+
+            {usedBillets.map((billet) => {
+              const candidate = candidateById[billet.locationId]
+              return (
+                <div
+                  key={billet.locationId}
+                  {...dropZoneProps(billet.locationId)}
+                  className={`rounded-lg border p-3 space-y-2 ${dropZoneClass(billet.locationId)}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="font-medium text-white">{locationName(billet.locationId)}</h3>
+                      <p className="text-xs text-gray-400">
+                        {candidate.distanceKm.toFixed(1)} km · {GENDER_LABELS[billet.gender]}
+                      </p>
+                    </div>
+                    <span className="text-sm text-gray-300">
+                      {sumCounts(billet.counts)} / {candidate.capacity}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {renderChips(billet.locationId, billet.gender, billet.counts)}
+                  </div>
+                  {renderMoveHere(billet.locationId)}
+                  {movement && named && (
+                    <NominalRollList
+                      title={`${movement.name} - ${locationName(billet.locationId)}`}
+                      personnel={named.byLocation[billet.locationId] ?? []}
+                    />
+                  )}
+                </div>
+              )
+            })}
+
+            <div
+              {...dropZoneProps(null)}
+              className={`rounded-lg border border-dashed p-3 space-y-2 ${dropZoneClass(null)}`}
+            >
+              <h3 className={`text-sm font-medium ${unallocatedTotal > 0 ? "text-yellow-400" : "text-gray-400"}`}>
+                Unallocated: {unallocatedTotal}
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {GENDERS.flatMap((gender) => renderChips(null, gender, plan.unallocated[gender]))}
+              </div>
+              {renderMoveHere(null)}
+              {movement && named && named.unassigned.length > 0 && (
+                <NominalRollList title={`${movement.name} - unallocated`} personnel={named.unassigned} />
+              )}
+            </div>
+
+            {spareBillets.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-400">Spare billets</h3>
+                {spareBillets.map((candidate) => (
+                  <div
+                    key={candidate.locationId}
+                    {...dropZoneProps(candidate.locationId)}
+                    className={`flex items-center justify-between rounded-lg border p-3 ${dropZoneClass(candidate.locationId)}`}
+                  >
+                    <span className="text-sm text-white">{locationName(candidate.locationId)}</span>
+                    <span className="text-xs text-gray-400">
+                      {candidate.distanceKm.toFixed(1)} km · room for {candidate.capacity}
+                    </span>
+                    {renderMoveHere(candidate.locationId, "ml-2")}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import type { ComponentProps } from "react"
+import { Calendar } from "@/components/ui/calendar"
+import { fromDateKey, occupancyByNight, type Booking } from "@/lib/billeting/booking"
+
+type AvailabilityCalendarProps = ComponentProps<typeof Calendar> & {
+  bookings: Booking[]
+  // Registry capacity; without one any booking fills the place for the night
+  capacity?: number
+}
+
+// The booking date picker with each night shaded by how full the place already is
+export function AvailabilityCalendar({ bookings, capacity, ...props }: AvailabilityCalendarProps) {
+  const occupancy = Object.entries(occupancyByNight(bookings))
+  const isFull = (personnel: number) => capacity === undefined || personnel >= capacity
+  const nights = (full: boolean) =>
+    occupancy.filter(([, personnel]) => isFull(personnel) === full).map(([night]) => fromDateKey(night))
+
+  return (
+    <div className="space-y-2">
+      <Calendar
+        modifiers={{ partial: nights(false), full: nights(true) }}
+        modifiersClassNames={{ partial: "rounded-md bg-amber-900/60", full: "rounded-md bg-red-900/70" }}
+        {...props}
+      />
+      <div className="flex gap-4 text-xs text-gray-400">
+        {capacity !== undefined && (
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-amber-900/60" />
+            Part booked
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-red-900/70" />
+          {capacity === undefined ? "Booked" : "Full"}
+        </span>
+      </div>
+    </div>
+  )
+}
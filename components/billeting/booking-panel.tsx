@@ -0,0 +1,393 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, CalendarCheck, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AvailabilityCalendar } from "@/components/billeting/availability-calendar"
+import { NominalRollList } from "@/components/billeting/nominal-roll-list"
+import {
+  BOOKING_STATUS_LABELS,
+  BOOKING_TRANSITIONS,
+  bookingInputSchema,
+  bookingsOverlap,
+  findOverbookedNights,
+  formatNights,
+  formatStay,
+  fromDateKey,
+  isActiveBooking,
+  toDateKey,
+  type Booking,
+  type BookingStatus,
+} from "@/lib/billeting/booking"
+import { estimateTroopCapacity } from "@/lib/billeting/capacity"
+import { personnelAt, type Movement } from "@/lib/billeting/nominal-roll"
+import { getTroopCapacity, type Location } from "@/lib/places"
+
+interface BookingFormValues {
+  locationId: string
+  locationName: string
+  checkIn: string
+  checkOut: string
+  personnel: string
+  unit: string
+  contactName: string
+  contactPhone: string
+  movementId: string
+}
+
+const NO_MOVEMENT = "none"
+
+const STATUS_CLASSES: Record<BookingStatus, string> = {
+  requested: "bg-amber-900 text-amber-300",
+  confirmed: "bg-green-900 text-green-300",
+  checked_in: "bg-blue-900 text-blue-300",
+  cancelled: "bg-gray-700 text-gray-400",
+}
+
+const ACTION_LABELS: Record<BookingStatus, string> = {
+  requested: "Request",
+  confirmed: "Confirm",
+  checked_in: "Check in",
+  cancelled: "Cancel",
+}
+
+interface BookingPanelProps {
+  location: Location
+  onBack: () => void
+}
+
+export function BookingPanel({ location, onBack }: BookingPanelProps) {
+  const [bookings, setBookings] = useState<Booking[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [movements, setMovements] = useState<Movement[]>([])
+  const form = useForm<BookingFormValues>({
+    resolver: zodResolver(bookingInputSchema),
+    defaultValues: {
+      locationId: location.id,
+      locationName: location.name,
+      checkIn: "",
+      checkOut: "",
+      personnel: "",
+      unit: "",
+      contactName: "",
+      contactPhone: "",
+      movementId: "",
+    },
+  })
+
+  useEffect(() => {
+    fetch(`/api/bookings?locationId=${encodeURIComponent(location.id)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (response.ok) setBookings(data.bookings)
+        else setError(data?.error || "Failed to load bookings.")
+      })
+      .catch((error) => {
+        setError("Failed to load bookings. Please check your connection.")
+        console.error("Bookings error:", error)
+      })
+      .finally(() => setIsLoading(false))
+  }, [location.id])
+
+  useEffect(() => {
+    fetch("/api/movements")
+      .then(async (response) => {
+        const data = await response.json()
+        if (response.ok) setMovements(data.movements)
+      })
+      .catch((error) => console.error("Movements error:", error))
+  }, [])
+
+  const findMovement = (id?: string) => movements.find((movement) => movement.id === id)
+
+  // Fills the unit and head count from the roll: those the planner put here, else the whole movement
+  const selectMovement = (id: string) => {
+    const movement = findMovement(id)
+    form.setValue("movementId", movement ? movement.id : "")
+    if (!movement) return
+    const assigned = personnelAt(movement, location.id).length
+    form.setValue("unit", movement.name)
+    form.setValue("personnel", String(assigned || movement.personnel.length))
+  }
+
+  const [checkIn, checkOut, personnelValue] = form.watch(["checkIn", "checkOut", "personnel"])
+  const personnel = Number.parseInt(personnelValue, 10) || 0
+  const capacity = getTroopCapacity(location)
+  // Matches the server: only a registry capacity lets units share the place
+  const registryCapacity = location.billeting ? estimateTroopCapacity(location.billeting) : undefined
+  const overlapping =
+    checkIn && checkOut
+      ? bookings.filter((booking) => isActiveBooking(booking) && bookingsOverlap(booking, { checkIn, checkOut }))
+      : []
+  const overbooked =
+    registryCapacity !== undefined && overlapping.length > 0
+      ? findOverbookedNights(overlapping, { checkIn, checkOut, personnel }, registryCapacity)
+      : []
+  const isBlocked = registryCapacity === undefined ? overlapping.length > 0 : overbooked.length > 0
+
+  const submit = async (values: BookingFormValues) => {
+    setError("")
+    setNotice("")
+
+    try {
+      const response = await fetch("/api/bookings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "Failed to create booking.")
+        return
+      }
+      setBookings((current) => [...current, data.booking as Booking].sort((a, b) => a.checkIn.localeCompare(b.checkIn)))
+      setNotice(`Booking requested for ${values.unit}.`)
+      form.reset({ ...form.getValues(), checkIn: "", checkOut: "", personnel: "", unit: "", movementId: "" })
+    } catch (error) {
+      setError("Failed to create booking. Please check your connection.")
+      console.error("Booking creation error:", error)
+    }
+  }
+
+  const changeStatus = async (booking: Booking, status: BookingStatus) => {
+    setUpdatingId(booking.id)
+    setError("")
+
+    try {
+      const response = await fetch(`/api/bookings/${booking.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setBookings((current) => current.map((existing) => (existing.id === booking.id ? data.booking : existing)))
+      } else {
+        setError(data.error || "Failed to update booking.")
+      }
+    } catch (error) {
+      setError("Failed to update booking. Please check your connection.")
+      console.error("Booking update error:", error)
+    }
+
+    setUpdatingId(null)
+  }
+
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col">
+      <div className="bg-gray-800 p-4 border-b border-gray-700">
+        <div className="flex items-center justify-between">
+          <Button onClick={onBack} variant="outline" size="sm" className="border-gray-600 text-gray-300">
+            ← Back
+          </Button>
+          <h1 className="text-lg font-semibold text-white">Book Billet</h1>
+          <CalendarCheck className="h-5 w-5 text-green-400" />
+        </div>
+      </div>
+
+      <div className="flex-1 p-4 space-y-4">
+        <div>
+          <h2 className="font-medium text-white">{location.name}</h2>
+          <p className="text-sm text-gray-400">{location.address}</p>
+          {capacity !== undefined && <p className="text-sm text-gray-300">Holds up to {capacity} personnel</p>}
+          {registryCapacity === undefined && (
+            <p className="text-xs text-gray-500">
+              Not in the capacity registry, so it is booked to one unit at a time.
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+        {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-2">
+          <h3 className="font-medium text-white">Occupancy</h3>
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : bookings.length === 0 ? (
+            <p className="text-sm text-gray-500">No bookings yet</p>
+          ) : (
+            bookings.map((booking) => (
+              <div key={booking.id} className="flex items-start justify-between gap-2 border-t border-gray-700 pt-2">
+                <div className="text-sm">
+                  <p className="text-white">
+                    {booking.unit} · {booking.personnel} personnel
+                  </p>
+                  <p className="text-gray-400">{formatStay(booking)}</p>
+                  <p className="text-xs text-gray-500">
+                    {booking.contactName}, {booking.contactPhone}
+                  </p>
+                  {findMovement(booking.movementId) && (
+                    <NominalRollList
+                      title={`${booking.unit} - ${location.name}`}
+                      personnel={personnelAt(findMovement(booking.movementId)!, location.id)}
+                    />
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  <span className={`rounded px-1.5 py-0.5 text-xs ${STATUS_CLASSES[booking.status]}`}>
+                    {BOOKING_STATUS_LABELS[booking.status]}
+                  </span>
+                  <div className="flex gap-1">
+                    {BOOKING_TRANSITIONS[booking.status].map((status) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => changeStatus(booking, status)}
+                        disabled={updatingId === booking.id}
+                        className="h-7 px-2 text-xs text-gray-300 hover:text-white hover:bg-gray-700"
+                      >
+                        {ACTION_LABELS[status]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(submit)}
+            className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-4"
+          >
+            <h3 className="font-medium text-white">New booking</h3>
+            <FormField
+              control={form.control}
+              name="checkOut"
+              render={() => (
+                <FormItem>
+                  <FormLabel className="text-gray-300">Dates</FormLabel>
+                  <FormControl>
+                    <AvailabilityCalendar
+                      bookings={bookings}
+                      capacity={registryCapacity}
+                      mode="range"
+                      selected={{
+                        from: checkIn ? fromDateKey(checkIn) : undefined,
+                        to: checkOut ? fromDateKey(checkOut) : undefined,
+                      }}
+                      onSelect={(range) => {
+                        form.setValue("checkIn", range?.from ? toDateKey(range.from) : "")
+                        form.setValue("checkOut", range?.to ? toDateKey(range.to) : "", {
+                          shouldValidate: form.formState.isSubmitted,
+                        })
+                      }}
+                      disabled={{ before: today }}
+                      className="rounded-md border border-gray-700 bg-gray-900 text-white"
+                    />
+                  </FormControl>
+                  <p className="text-sm text-gray-400">
+                    {checkIn && checkOut ? formatStay({ checkIn, checkOut }) : "Pick the arrival and departure days"}
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {movements.length > 0 && (
+              <FormField
+                control={form.control}
+                name="movementId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-300">Movement</FormLabel>
+                    <Select value={field.value || NO_MOVEMENT} onValueChange={selectMovement}>
+                      <FormControl>
+                        <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_MOVEMENT}>No nominal roll</SelectItem>
+                        {movements.map((movement) => (
+                          <SelectItem key={movement.id} value={movement.id}>
+                            {movement.name} ({movement.personnel.length})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {(
+              [
+                { name: "personnel", label: "Number of personnel", type: "number" },
+                { name: "unit", label: "Unit", type: "text" },
+                { name: "contactName", label: "Contact name", type: "text" },
+                { name: "contactPhone", label: "Contact phone", type: "tel" },
+              ] as const
+            ).map(({ name, label, type }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-gray-300">{label}</FormLabel>
+                    <FormControl>
+                      <Input type={type} className="bg-gray-700 border-gray-600 text-white" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            {registryCapacity === undefined && overlapping.length > 0 && (
+              <div className="flex items-start gap-2 text-red-400 text-sm">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>
+                  Already held for part of this stay by {overlapping.map((booking) => booking.unit).join(", ")}.
+                </span>
+              </div>
+            )}
+            {overbooked.length > 0 && (
+              <div className="flex items-start gap-2 text-red-400 text-sm">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>
+                  Over capacity ({registryCapacity}) on {formatNights(overbooked)}.
+                </span>
+              </div>
+            )}
+            {registryCapacity !== undefined && overbooked.length === 0 && overlapping.length > 0 && (
+              <div className="flex items-start gap-2 text-yellow-400 text-sm">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>Shared with {overlapping.map((booking) => booking.unit).join(", ")} for part of this stay.</span>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={form.formState.isSubmitting || isBlocked}
+              className="w-full bg-green-600 hover:bg-green-700"
+            >
+              {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Request booking
+            </Button>
+          </form>
+        </Form>
+      </div>
+    </div>
+  )
+}
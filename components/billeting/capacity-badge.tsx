@@ -0,0 +1,24 @@
+import { Users } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { getTroopCapacity, type Location } from "@/lib/places"
+
+// Green when a billeting officer recorded it, grey when it only comes from OSM tags
+export function CapacityBadge({ location, className }: { location: Location; className?: string }) {
+  const capacity = getTroopCapacity(location)
+  if (capacity === undefined) return null
+
+  const recorded = !!location.billeting
+  return (
+    <span
+      title={recorded ? `Recorded by ${location.billeting?.updatedBy}` : "From OpenStreetMap"}
+      className={cn(
+        "flex items-center gap-1 rounded px-1.5 py-0.5 text-xs",
+        recorded ? "bg-green-900 text-green-300" : "bg-gray-700 text-gray-300",
+        className,
+      )}
+    >
+      <Users className="h-3 w-3" />
+      {capacity}
+    </span>
+  )
+}
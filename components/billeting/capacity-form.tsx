@@ -0,0 +1,199 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { capacityInputSchema, SQM_PER_PERSON, type CapacityRecord } from "@/lib/billeting/capacity"
+
+// Number inputs hold strings; the schema turns blanks into "not recorded"
+interface CapacityFormValues {
+  rooms: string
+  beds: string
+  hallAreaSqm: string
+  toilets: string
+  water: boolean
+  kitchen: boolean
+  notes: string
+}
+
+const COUNT_FIELDS: Array<{ name: "rooms" | "beds" | "hallAreaSqm" | "toilets"; label: string }> = [
+  { name: "rooms", label: "Rooms" },
+  { name: "beds", label: "Beds" },
+  { name: "hallAreaSqm", label: "Hall floor space (m²)" },
+  { name: "toilets", label: "Toilets" },
+]
+
+const toFormValues = (record?: CapacityRecord): CapacityFormValues => ({
+  rooms: record?.rooms?.toString() ?? "",
+  beds: record?.beds?.toString() ?? "",
+  hallAreaSqm: record?.hallAreaSqm?.toString() ?? "",
+  toilets: record?.toilets?.toString() ?? "",
+  water: record?.water ?? false,
+  kitchen: record?.kitchen ?? false,
+  notes: record?.notes ?? "",
+})
+
+interface CapacityFormProps {
+  locationId: string
+  record?: CapacityRecord
+  // Called with the saved record, or undefined once it has been deleted
+  onSaved: (record: CapacityRecord | undefined) => void
+  onCancel: () => void
+}
+
+export function CapacityForm({ locationId, record, onSaved, onCancel }: CapacityFormProps) {
+  const [error, setError] = useState("")
+  const [isDeleting, setIsDeleting] = useState(false)
+  const form = useForm<CapacityFormValues>({
+    resolver: zodResolver(capacityInputSchema),
+    defaultValues: toFormValues(record),
+  })
+
+  const save = async (values: CapacityFormValues) => {
+    setError("")
+
+    try {
+      const response = await fetch(`/api/capacity/${encodeURIComponent(locationId)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "Failed to save capacity.")
+        return
+      }
+      onSaved(data.record)
+    } catch (error) {
+      setError("Failed to save capacity. Please try again.")
+      console.error("Capacity save error:", error)
+    }
+  }
+
+  const remove = async () => {
+    setIsDeleting(true)
+    setError("")
+
+    try {
+      const response = await fetch(`/api/capacity/${encodeURIComponent(locationId)}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || "Failed to delete capacity.")
+      } else {
+        onSaved(undefined)
+      }
+    } catch (error) {
+      setError("Failed to delete capacity. Please try again.")
+      console.error("Capacity delete error:", error)
+    }
+
+    setIsDeleting(false)
+  }
+
+  const isSaving = form.formState.isSubmitting
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(save)} className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          {COUNT_FIELDS.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-gray-300">{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      inputMode="numeric"
+                      className="bg-gray-700 border-gray-600 text-white"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          Troop capacity counts beds plus one person per {SQM_PER_PERSON} m² of hall floor.
+        </p>
+
+        <div className="flex gap-6">
+          {(["water", "kitchen"] as const).map((name) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      className="border-gray-500 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-600"
+                    />
+                  </FormControl>
+                  <FormLabel className="text-gray-300">{name === "water" ? "Water supply" : "Kitchen"}</FormLabel>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-300">Notes</FormLabel>
+              <FormControl>
+                <Textarea rows={2} className="bg-gray-700 border-gray-600 text-white" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isSaving || isDeleting} className="flex-1 bg-green-600 hover:bg-green-700">
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save capacity
+          </Button>
+          {record && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={remove}
+              disabled={isSaving || isDeleting}
+              className="border-red-800 text-red-400"
+            >
+              {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={onCancel} className="border-gray-600 text-gray-300">
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,30 @@
+import { estimateTroopCapacity, type CapacityRecord } from "@/lib/billeting/capacity"
+
+export function CapacitySummary({ record }: { record: CapacityRecord }) {
+  const rows = [
+    { label: "Troops", value: estimateTroopCapacity(record) },
+    { label: "Rooms", value: record.rooms },
+    { label: "Beds", value: record.beds },
+    { label: "Hall floor", value: record.hallAreaSqm !== undefined ? `${record.hallAreaSqm} m²` : undefined },
+    { label: "Toilets", value: record.toilets },
+    { label: "Water", value: record.water ? "Yes" : "No" },
+    { label: "Kitchen", value: record.kitchen ? "Yes" : "No" },
+    { label: "Notes", value: record.notes || undefined },
+  ].filter((row) => row.value !== undefined)
+
+  return (
+    <div className="space-y-1">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="contents">
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="text-gray-200">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-xs text-gray-500">
+        Updated by {record.updatedBy} on {new Date(record.updatedAt).toLocaleDateString()}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { toNominalRollCsv, type Person } from "@/lib/billeting/nominal-roll"
+
+interface NominalRollListProps {
+  // Also names the downloaded file
+  title: string
+  personnel: Person[]
+}
+
+export function NominalRollList({ title, personnel }: NominalRollListProps) {
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([toNominalRollCsv(personnel)], { type: "text/csv" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${title.replace(/[^\w-]+/g, "_")}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer text-gray-300">Nominal roll ({personnel.length})</summary>
+      <div className="mt-2 space-y-2">
+        <ol className="max-h-48 overflow-y-auto space-y-0.5 text-xs text-gray-400">
+          {personnel.map((person) => (
+            <li key={person.armyNumber}>
+              {person.armyNumber} {person.rank} {person.name}
+              {person.subUnit && <span className="text-gray-500"> · {person.subUnit}</span>}
+            </li>
+          ))}
+        </ol>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={download}
+          disabled={personnel.length === 0}
+          className="border-gray-600 text-gray-300"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          Download CSV
+        </Button>
+      </div>
+    </details>
+  )
+}
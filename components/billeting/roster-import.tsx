@@ -0,0 +1,172 @@
+"use client"
+
+import { useState, type ChangeEvent } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  movementInputSchema,
+  parseNominalRoll,
+  strengthOfRoll,
+  type Movement,
+  type RollError,
+} from "@/lib/billeting/nominal-roll"
+import { GENDER_LABELS, GENDERS, sumCounts } from "@/lib/billeting/allocation"
+
+interface MovementFormValues {
+  name: string
+  csv: string
+}
+
+// Errors past this many lines are summarised rather than listed
+const MAX_LISTED_ERRORS = 10
+
+interface RosterImportProps {
+  onImported: (movement: Movement) => void
+  onCancel: () => void
+}
+
+export function RosterImport({ onImported, onCancel }: RosterImportProps) {
+  const [error, setError] = useState("")
+  const [rowErrors, setRowErrors] = useState<RollError[]>([])
+  const form = useForm<MovementFormValues>({
+    resolver: zodResolver(movementInputSchema),
+    defaultValues: { name: "", csv: "" },
+  })
+
+  const csv = form.watch("csv")
+  const preview = csv.trim() ? parseNominalRoll(csv) : null
+  const errors = rowErrors.length > 0 ? rowErrors : (preview?.errors ?? [])
+  const strength = preview ? strengthOfRoll(preview.personnel) : null
+
+  const chooseFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setRowErrors([])
+    form.setValue("csv", await file.text(), { shouldValidate: form.formState.isSubmitted })
+    if (!form.getValues("name")) form.setValue("name", file.name.replace(/\.csv$/i, ""))
+  }
+
+  const submit = async (values: MovementFormValues) => {
+    setError("")
+    setRowErrors([])
+    if (preview && preview.errors.length > 0) {
+      setError("Fix the lines below before importing.")
+      return
+    }
+
+    try {
+      const response = await fetch("/api/movements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "Failed to import the nominal roll.")
+        setRowErrors(data.rowErrors ?? [])
+        return
+      }
+      onImported(data.movement)
+    } catch (error) {
+      setError("Failed to import the nominal roll. Please check your connection.")
+      console.error("Roster import error:", error)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(submit)} className="space-y-3">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-300">Movement</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="e.g. 5 JAK RIF to Pathankot"
+                  className="bg-gray-700 border-gray-600 text-white"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="csv"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-gray-300">Nominal roll (CSV)</FormLabel>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={chooseFile}
+                className="bg-gray-700 border-gray-600 text-gray-300"
+              />
+              <FormControl>
+                <Textarea
+                  rows={5}
+                  placeholder={"Army Number,Rank,Name,Sub-unit,Gender\n15123456K,Sep,Ram Singh,A Coy,M"}
+                  className="bg-gray-700 border-gray-600 text-white font-mono text-xs"
+                  {...field}
+                  onChange={(event) => {
+                    setRowErrors([])
+                    field.onChange(event)
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {preview && strength && (
+          <p className="text-sm text-gray-300">
+            {preview.personnel.length} personnel ·{" "}
+            {GENDERS.map((gender) => `${sumCounts(strength[gender])} ${GENDER_LABELS[gender].toLowerCase()}`).join(
+              ", ",
+            )}
+          </p>
+        )}
+        {errors.length > 0 && (
+          <ul className="space-y-0.5 text-xs text-yellow-400">
+            {errors.slice(0, MAX_LISTED_ERRORS).map((rowError) => (
+              <li key={rowError.line}>
+                Line {rowError.line}: {rowError.message}
+              </li>
+            ))}
+            {errors.length > MAX_LISTED_ERRORS && <li>…and {errors.length - MAX_LISTED_ERRORS} more</li>}
+          </ul>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            type="submit"
+            disabled={form.formState.isSubmitting}
+            className="flex-1 bg-green-600 hover:bg-green-700"
+          >
+            {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import roll
+          </Button>
+          <Button type="button" variant="outline" onClick={onCancel} className="border-gray-600 text-gray-300">
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
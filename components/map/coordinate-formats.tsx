@@ -0,0 +1,21 @@
+import { formatDecimal, formatDms, formatMgrs, formatUtm, type LatLng } from "@/lib/coordinates"
+
+const FORMATS = [
+  { label: "Lat/Long", format: formatDecimal },
+  { label: "DMS", format: formatDms },
+  { label: "UTM", format: formatUtm },
+  { label: "MGRS", format: formatMgrs },
+]
+
+export function CoordinateFormats({ position }: { position: LatLng }) {
+  return (
+    <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+      {FORMATS.map(({ label, format }) => (
+        <div key={label} className="contents">
+          <dt className="text-gray-400">{label}</dt>
+          <dd className="font-mono text-gray-200 select-all">{format(position)}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from "@/components/ui/command"
+import { formatCoordinates, parseCoordinates, type ParsedCoordinates } from "@/lib/coordinates"
+import type { GeocodeResult } from "@/lib/geocoding"
+import { Crosshair, Loader2, MapPin } from "lucide-react"
+
+const TYPEAHEAD_DELAY_MS = 500
+const TYPEAHEAD_MIN_LENGTH = 3
+
+const FORMAT_LABELS: Record<ParsedCoordinates["format"], string> = {
+  decimal: "lat/long",
+  dms: "DMS",
+  utm: "UTM",
+  mgrs: "MGRS",
+}
+
+// Grid references are resolved locally and offered as a single candidate
+const toCoordinateResult = (parsed: ParsedCoordinates): GeocodeResult => ({
+  lat: parsed.lat,
+  lng: parsed.lng,
+  name: formatCoordinates(parsed, parsed.format),
+  label: formatCoordinates(parsed, "decimal"),
+  type: FORMAT_LABELS[parsed.format],
+  source: "coordinates",
+})
+
+interface LocationSearchProps {
+  search: (query: string, signal: AbortSignal) => Promise<GeocodeResult[]>
+  onSelect: (result: GeocodeResult) => void
+  disabled?: boolean
+}
+
+// Search box with a candidate list: nothing moves until the user picks one of the matches,
+// so an ambiguous name ("Lansdowne", "Mhow") never silently recenters on the wrong place.
+// Lat/long, DMS, UTM and MGRS input is parsed locally and never sent to the geocoder.
+export function LocationSearch({ search, onSelect, disabled }: LocationSearchProps) {
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<GeocodeResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+  const [error, setError] = useState("")
+  const abortRef = useRef<AbortController | null>(null)
+
+  const runSearch = async (value: string, { pickCoordinates = false } = {}) => {
+    abortRef.current?.abort()
+    if (!value.trim()) return
+
+    const parsed = parseCoordinates(value)
+    if (parsed) {
+      const result = toCoordinateResult(parsed)
+      if (pickCoordinates) return pick(result)
+      setResults([result])
+      setError("")
+      setIsSearching(false)
+      setIsOpen(true)
+      return
+    }
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsSearching(true)
+    setError("")
+    setIsOpen(true)
+
+    try {
+      const candidates = await search(value.trim(), controller.signal)
+      if (controller.signal.aborted) return
+      setResults(candidates)
+      if (candidates.length === 0) setError("Location not found. Please try a different search term.")
+    } catch (error) {
+      if (controller.signal.aborted) return
+      setResults([])
+      setError("Search failed. Please check your connection and try again.")
+      console.error("Search error:", error)
+    }
+
+    setIsSearching(false)
+  }
+
+  // The typeahead reruns on each keystroke only, always with the latest props
+  const runSearchRef = useRef(runSearch)
+  runSearchRef.current = runSearch
+  // Text put in the box by picking a candidate; searching it again would reopen the list just closed
+  const pickedQueryRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (query.trim().length < TYPEAHEAD_MIN_LENGTH || query === pickedQueryRef.current) return
+    const timeout = window.setTimeout(() => runSearchRef.current(query), TYPEAHEAD_DELAY_MS)
+    return () => window.clearTimeout(timeout)
+  }, [query])
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const pick = (result: GeocodeResult) => {
+    abortRef.current?.abort()
+    if (result.source !== "coordinates") {
+      pickedQueryRef.current = result.name
+      setQuery(result.name)
+    }
+    setIsOpen(false)
+    setIsSearching(false)
+    onSelect(result)
+  }
+
+  return (
+    <Command shouldFilter={false} className="relative overflow-visible bg-transparent text-white">
+      <div className="flex gap-2">
+        <Input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            pickedQueryRef.current = null
+            setQuery(e.target.value)
+            if (!e.target.value.trim()) setIsOpen(false)
+          }}
+          onFocus={() => results.length > 0 && setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={(e) => {
+            // With candidates showing, Enter picks the highlighted one (handled by Command)
+            if (e.key === "Enter" && (!isOpen || results.length === 0)) runSearch(query, { pickCoordinates: true })
+            if (e.key === "Escape") setIsOpen(false)
+          }}
+          placeholder="Search place or grid ref (lat/long, UTM, MGRS)..."
+          className="bg-gray-700 border-gray-600 text-white"
+          disabled={disabled}
+        />
+        <Button
+          onClick={() => runSearch(query, { pickCoordinates: true })}
+          disabled={disabled || isSearching}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Search"}
+        </Button>
+      </div>
+      {isOpen && (
+        <CommandList className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border border-gray-600 bg-gray-800 shadow-lg">
+          {isSearching && results.length === 0 ? (
+            <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </div>
+          ) : (
+            <CommandEmpty className="py-6 text-center text-sm text-gray-400">{error}</CommandEmpty>
+          )}
+          {results.length > 0 && (
+            <CommandGroup>
+              {results.map((result, index) => (
+                <CommandItem
+                  key={`${result.source}-${result.lat}-${result.lng}-${index}`}
+                  value={`${index}`}
+                  onSelect={() => pick(result)}
+                  // Keep the input focused so the blur handler doesn't close the list before the pick lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  className="flex items-start gap-2 text-white aria-selected:bg-gray-700 aria-selected:text-white"
+                >
+                  {result.source === "coordinates" ? (
+                    <Crosshair className="mt-0.5 h-4 w-4 shrink-0 text-green-400" />
+                  ) : (
+                    <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-green-400" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{result.name}</span>
+                      {result.type && (
+                        <span className="shrink-0 rounded bg-gray-600 px-1.5 py-0.5 text-xs capitalize text-gray-200">
+                          {result.type}
+                        </span>
+                      )}
+                    </div>
+                    <p className="truncate text-xs text-gray-400">
+                      {[result.district, result.state].filter(Boolean).join(", ") || result.label}
+                    </p>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+import { AlertCircle, CalendarPlus, Loader2, Navigation, Pencil } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer"
+import { CapacityForm } from "@/components/billeting/capacity-form"
+import { CapacitySummary } from "@/components/billeting/capacity-summary"
+import { CoordinateFormats } from "@/components/map/coordinate-formats"
+import { PlaceTypeIcon } from "@/components/map/place-type-icon"
+import type { CapacityRecord } from "@/lib/billeting/capacity"
+import { PLACE_TYPES } from "@/lib/categories"
+import type { LatLng } from "@/lib/coordinates"
+import { calculateDistance } from "@/lib/geo"
+import { AMENITIES, isFallbackLocationId, type Location } from "@/lib/places"
+
+interface PlaceDetailsDrawerProps {
+  location: Location | null
+  // Used for the distance line; hidden when the user's position is unknown
+  origin: LatLng | null
+  onClose: () => void
+  onNavigate: (location: Location) => void
+  isLoading?: boolean
+  // Route calculation failure, shown above the Navigate button
+  error?: string
+  canEditCapacity?: boolean
+  onCapacityChange?: (locationId: string, record: CapacityRecord | undefined) => void
+  // Offered to users who may book billets
+  onBook?: (location: Location) => void
+}
+
+const websiteHref = (website: string) => (/^https?:\/\//i.test(website) ? website : `https://${website}`)
+
+export function PlaceDetailsDrawer({
+  location,
+  origin,
+  onClose,
+  onNavigate,
+  isLoading,
+  error,
+  canEditCapacity,
+  onCapacityChange,
+  onBook,
+}: PlaceDetailsDrawerProps) {
+  const [isEditingCapacity, setIsEditingCapacity] = useState(false)
+
+  useEffect(() => setIsEditingCapacity(false), [location?.id])
+
+  const isSample = !!location && isFallbackLocationId(location.id)
+
+  const rows: Array<{ label: string; value: ReactNode }> = location
+    ? [
+        { label: "Phone", value: location.phone && <a href={`tel:${location.phone}`}>{location.phone}</a> },
+        {
+          label: "Website",
+          value: location.website && (
+            <a href={websiteHref(location.website)} target="_blank" rel="noreferrer" className="break-all">
+              {location.website}
+            </a>
+          ),
+        },
+        { label: "Rooms", value: location.rooms },
+        { label: "Beds", value: location.beds },
+        { label: "Check-in", value: location.checkIn },
+        { label: "Check-out", value: location.checkOut },
+        { label: "Operator", value: location.operator },
+        { label: "Parking", value: location.parking },
+        { label: "Opening hours", value: location.openingHours },
+      ].filter((row) => row.value !== undefined && row.value !== "")
+    : []
+
+  return (
+    <Drawer open={!!location} onOpenChange={(open) => !open && onClose()}>
+      <DrawerContent className="bg-gray-800 border-gray-700 text-white max-h-[90vh]">
+        {location && (
+          <div className="mx-auto w-full max-w-md overflow-y-auto">
+            <DrawerHeader className="text-left">
+              <DrawerTitle className="flex items-center gap-2 text-white">
+                <PlaceTypeIcon type={location.type} />
+                {location.name}
+              </DrawerTitle>
+              <DrawerDescription className="text-gray-400">
+                {PLACE_TYPES[location.type].label} · {location.address}
+              </DrawerDescription>
+              <div className="flex items-center gap-3 text-sm">
+                {location.rating && <span className="text-yellow-400">★ {location.rating.toFixed(1)}</span>}
+                {origin && (
+                  <span className="text-gray-300">
+                    {calculateDistance(origin.lat, origin.lng, location.lat, location.lng).toFixed(1)} km away
+                  </span>
+                )}
+              </div>
+            </DrawerHeader>
+
+            <div className="px-4 space-y-3">
+              {rows.length > 0 ? (
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  {rows.map(({ label, value }) => (
+                    <div key={label} className="contents">
+                      <dt className="text-gray-400">{label}</dt>
+                      <dd className="text-gray-200 [&_a]:text-green-400 [&_a]:underline">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : (
+                <p className="text-sm text-gray-500">No further details in OpenStreetMap</p>
+              )}
+              <div className="rounded border border-gray-700 p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-white">Billeting capacity</h3>
+                  {canEditCapacity && !isSample && !isEditingCapacity && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setIsEditingCapacity(true)}
+                      className="h-7 text-gray-300 hover:text-white hover:bg-gray-700"
+                    >
+                      <Pencil className="h-3 w-3 mr-1" />
+                      {location.billeting ? "Edit" : "Record"}
+                    </Button>
+                  )}
+                </div>
+                {isEditingCapacity ? (
+                  <CapacityForm
+                    locationId={location.id}
+                    record={location.billeting}
+                    onSaved={(record) => {
+                      onCapacityChange?.(location.id, record)
+                      setIsEditingCapacity(false)
+                    }}
+                    onCancel={() => setIsEditingCapacity(false)}
+                  />
+                ) : location.billeting ? (
+                  <CapacitySummary record={location.billeting} />
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {isSample ? "Sample place, shown while OpenStreetMap is unreachable" : "Not recorded yet"}
+                  </p>
+                )}
+              </div>
+              {!!location.amenities?.length && (
+                <div className="flex flex-wrap gap-2">
+                  {location.amenities.map((amenity) => (
+                    <span key={amenity} className="rounded bg-gray-700 px-2 py-0.5 text-xs text-gray-300">
+                      {AMENITIES[amenity].label}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <CoordinateFormats position={location} />
+            </div>
+
+            <DrawerFooter>
+              {error && (
+                <div className="flex items-center gap-2 text-red-400 text-sm">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              )}
+              <Button
+                onClick={() => onNavigate(location)}
+                disabled={isLoading}
+                className="w-full bg-green-600 hover:bg-green-700"
+              >
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Navigation className="h-4 w-4 mr-2" />
+                )}
+                Navigate
+              </Button>
+              {onBook && !isSample && (
+                <Button
+                  onClick={() => onBook(location)}
+                  variant="outline"
+                  className="w-full border-green-700 text-green-400"
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Book
+                </Button>
+              )}
+              <DrawerClose asChild>
+                <Button variant="outline" className="w-full border-gray-600 text-gray-300">
+                  Close
+                </Button>
+              </DrawerClose>
+            </DrawerFooter>
+          </div>
+        )}
+      </DrawerContent>
+    </Drawer>
+  )
+}
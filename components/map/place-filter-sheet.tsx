@@ -0,0 +1,166 @@
+"use client"
+
+import { SlidersHorizontal } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { Slider } from "@/components/ui/slider"
+import {
+  countActiveFilters,
+  DEFAULT_PLACE_FILTERS,
+  PLACE_SORT_LABELS,
+  type PlaceFilters,
+  type PlaceSort,
+} from "@/lib/place-filters"
+import { AMENITIES, MAX_RADIUS_KM, type Amenity } from "@/lib/places"
+
+const RATING_OPTIONS = [0, 2, 3, 4, 5]
+
+const CHECKBOX_CLASS = "border-gray-500 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-600"
+
+interface PlaceFilterSheetProps {
+  filters: PlaceFilters
+  onChange: (filters: PlaceFilters) => void
+  // Distance filtering needs the user's own position
+  hasUserLocation: boolean
+  shownCount: number
+  totalCount: number
+}
+
+export function PlaceFilterSheet({
+  filters,
+  onChange,
+  hasUserLocation,
+  shownCount,
+  totalCount,
+}: PlaceFilterSheetProps) {
+  const activeCount = countActiveFilters(filters)
+  const update = (patch: Partial<PlaceFilters>) => onChange({ ...filters, ...patch })
+
+  const toggleAmenity = (amenity: Amenity, checked: boolean) =>
+    update({
+      amenities: checked ? [...filters.amenities, amenity] : filters.amenities.filter((item) => item !== amenity),
+    })
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="border-gray-600 text-gray-300">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Filter & sort
+          {activeCount > 0 && (
+            <span className="ml-2 rounded-full bg-green-600 px-1.5 text-xs text-white">{activeCount}</span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="bg-gray-800 border-gray-700 text-white max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Filter & sort</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Showing {shownCount} of {totalCount} places
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-6">
+          <div className="space-y-2">
+            <Label className="text-gray-300">Minimum star rating</Label>
+            <div className="flex gap-2">
+              {RATING_OPTIONS.map((rating) => (
+                <Button
+                  key={rating}
+                  size="sm"
+                  variant={filters.minRating === rating ? "default" : "outline"}
+                  onClick={() => update({ minRating: rating })}
+                  className={
+                    filters.minRating === rating ? "bg-green-600 hover:bg-green-700" : "border-gray-600 text-gray-300"
+                  }
+                >
+                  {rating === 0 ? "Any" : `${rating}★+`}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-gray-300">Distance from you</Label>
+              <span className="text-sm text-gray-400">
+                {filters.maxDistanceKm === null ? "Any" : `Within ${filters.maxDistanceKm} km`}
+              </span>
+            </div>
+            <Slider
+              value={[filters.maxDistanceKm ?? MAX_RADIUS_KM]}
+              min={1}
+              max={MAX_RADIUS_KM}
+              step={1}
+              disabled={!hasUserLocation}
+              onValueChange={([value]) => update({ maxDistanceKm: value === MAX_RADIUS_KM ? null : value })}
+              aria-label="Maximum distance"
+            />
+            {!hasUserLocation && <p className="text-xs text-gray-500">Needs your location</p>}
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-gray-300">Details</Label>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="filter-has-name"
+                checked={filters.requireName}
+                className={CHECKBOX_CLASS}
+                onCheckedChange={(checked) => update({ requireName: checked === true })}
+              />
+              <Label htmlFor="filter-has-name">Has a name</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="filter-has-address"
+                checked={filters.requireAddress}
+                className={CHECKBOX_CLASS}
+                onCheckedChange={(checked) => update({ requireAddress: checked === true })}
+              />
+              <Label htmlFor="filter-has-address">Has an address</Label>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-gray-300">Amenities</Label>
+            {(Object.keys(AMENITIES) as Amenity[]).map((amenity) => (
+              <div key={amenity} className="flex items-center gap-2">
+                <Checkbox
+                  id={`filter-${amenity}`}
+                  checked={filters.amenities.includes(amenity)}
+                  className={CHECKBOX_CLASS}
+                  onCheckedChange={(checked) => toggleAmenity(amenity, checked === true)}
+                />
+                <Label htmlFor={`filter-${amenity}`}>{AMENITIES[amenity].label}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-gray-300">Sort by</Label>
+            <RadioGroup value={filters.sortBy} onValueChange={(value) => update({ sortBy: value as PlaceSort })}>
+              {(Object.keys(PLACE_SORT_LABELS) as PlaceSort[]).map((sort) => (
+                <div key={sort} className="flex items-center gap-2">
+                  <RadioGroupItem id={`sort-${sort}`} value={sort} className="border-gray-500 text-green-500" />
+                  <Label htmlFor={`sort-${sort}`}>{PLACE_SORT_LABELS[sort]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={() => onChange(DEFAULT_PLACE_FILTERS)}
+            disabled={activeCount === 0 && filters.sortBy === DEFAULT_PLACE_FILTERS.sortBy}
+            className="w-full border-gray-600 text-gray-300"
+          >
+            Reset
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,7 @@
+import { cn } from "@/lib/utils"
+import { PLACE_TYPES, type PlaceType } from "@/lib/categories"
+
+export function PlaceTypeIcon({ type, className }: { type: PlaceType; className?: string }) {
+  const { icon: Icon, label, pinColor } = PLACE_TYPES[type]
+  return <Icon className={cn("h-4 w-4", className)} style={{ color: pinColor }} aria-label={label} />
+}
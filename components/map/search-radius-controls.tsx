@@ -0,0 +1,60 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { MAX_RADIUS_KM, type SearchOptions } from "@/lib/places"
+
+const RESULT_LIMITS = [5, 10, 20, 50]
+
+interface SearchRadiusControlsProps {
+  options: SearchOptions
+  // Radius the last search actually covered
+  loadedRadiusKm: number | null
+  onChange: (options: SearchOptions) => void
+  disabled?: boolean
+}
+
+export function SearchRadiusControls({ options, loadedRadiusKm, onChange, disabled }: SearchRadiusControlsProps) {
+  // Follows the thumb while dragging; the search only reruns once it is released
+  const [radiusKm, setRadiusKm] = useState(options.radiusKm)
+
+  useEffect(() => setRadiusKm(options.radiusKm), [options.radiusKm])
+
+  return (
+    <div className="mt-3 space-y-1">
+      <div className="flex items-center gap-3">
+        <span className="w-16 shrink-0 text-sm text-gray-300">{radiusKm} km</span>
+        <Slider
+          value={[radiusKm]}
+          min={1}
+          max={MAX_RADIUS_KM}
+          step={1}
+          disabled={disabled}
+          onValueChange={([value]) => setRadiusKm(value)}
+          onValueCommit={([value]) => onChange({ ...options, radiusKm: value })}
+          aria-label="Search radius"
+        />
+        <Select
+          value={String(options.limit)}
+          onValueChange={(value) => onChange({ ...options, limit: Number(value) })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-28 shrink-0 bg-gray-700 border-gray-600 text-white" aria-label="Result limit">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RESULT_LIMITS.map((limit) => (
+              <SelectItem key={limit} value={String(limit)}>
+                Max {limit}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {loadedRadiusKm !== null && loadedRadiusKm > options.radiusKm && (
+        <p className="text-xs text-amber-400">Few results nearby - search widened to {loadedRadiusKm} km</p>
+      )}
+    </div>
+  )
+}
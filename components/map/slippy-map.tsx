@@ -0,0 +1,493 @@
+"use client"
+
+import { useEffect, useRef, useState, type CSSProperties, type PointerEvent, type ReactNode } from "react"
+import { MapPin } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { LatLng } from "@/lib/coordinates"
+import {
+  boundsOf,
+  fitBounds,
+  project,
+  radiusForZoom,
+  TILE_SIZE,
+  unproject,
+  zoomForRadius,
+  type Bounds,
+  type Point,
+} from "@/lib/geo"
+import { boxAround, clusterByDistance, placeLabels, type LabelSide } from "@/lib/map-layout"
+import { getTileSource, tilesInView, tileUrl, type TileCoord } from "@/lib/tiles"
+import { getOfflineTile } from "@/lib/tiles/pack-store"
+
+export interface MapMarker {
+  id: string
+  position: LatLng
+  variant: "place" | "user" | "destination"
+  color?: string
+  label?: string
+}
+
+export interface MapView {
+  center: LatLng
+  zoom: number
+  // Largest circle around the centre that is wholly in view
+  radiusKm: number
+}
+
+interface SlippyMapProps {
+  center: LatLng
+  // Fractional zoom; when unset the map fits `bounds`, or else a circle of `radiusKm` around `center`
+  zoom?: number | null
+  radiusKm?: number
+  // Box to centre on and fit, e.g. a route with its endpoints
+  bounds?: Bounds | null
+  markers: MapMarker[]
+  // Place marker drawn larger, above the others and always labelled
+  selectedId?: string | null
+  // Line drawn under the markers, e.g. a route
+  path?: LatLng[]
+  onMarkerClick?: (id: string) => void
+  // Makes the map draggable and zoomable; the parent owns the view and passes it back in
+  onViewChange?: (view: MapView) => void
+  // Draw only from the offline tile packs
+  offline?: boolean
+  className?: string
+  // Overlays such as map buttons
+  children?: ReactNode
+}
+
+// Travel before a press turns into a drag, so taps still reach the markers
+const DRAG_THRESHOLD_PX = 4
+const DOUBLE_TAP_MS = 300
+const DOUBLE_TAP_SLOP_PX = 20
+// Scroll distance that zooms in or out by one level
+const WHEEL_PX_PER_ZOOM = 300
+// Browsers that report wheel deltas in lines rather than pixels
+const WHEEL_PX_PER_LINE = 40
+const MAX_CENTER_LATITUDE = 85
+// Space kept around fitted bounds so markers at the edge (the destination pin stands above its spot) stay in view
+const FIT_PADDING_PX = 32
+// Place pins closer than this merge into a counted cluster, until the map is zoomed in far enough to
+// tell them apart
+const CLUSTER_RADIUS_PX = 24
+const CLUSTER_MAX_ZOOM = 16
+const CLUSTER_SIZE_PX = 28
+// Labels are cut off at 7rem; a generous width per character of their 10 px text
+const LABEL_MAX_WIDTH_PX = 112
+const LABEL_CHAR_WIDTH_PX = 6
+
+const LABEL_POSITION: Record<LabelSide, string> = {
+  right: "left-2.5 -translate-y-1/2",
+  left: "right-2.5 -translate-y-1/2",
+  above: "bottom-2.5 -translate-x-1/2",
+  below: "top-2.5 -translate-x-1/2",
+}
+
+const markerKey = (marker: MapMarker) => `${marker.variant}-${marker.id}`
+
+interface MapTileProps {
+  coord: TileCoord
+  src: string
+  offline: boolean
+  style: CSSProperties
+}
+
+// Falls back to the offline packs when the tile server can't be reached
+function MapTile({ coord, src, offline, style }: MapTileProps) {
+  const [networkFailed, setNetworkFailed] = useState(false)
+  const [localUrl, setLocalUrl] = useState<string | null>(null)
+  const [isMissing, setIsMissing] = useState(false)
+  const useLocal = offline || networkFailed
+  const { x, y, z } = coord
+
+  useEffect(() => {
+    if (!useLocal) return
+    let objectUrl: string | null = null
+    let cancelled = false
+
+    getOfflineTile({ x, y, z })
+      .then((blob) => {
+        if (cancelled) return
+        if (!blob) return setIsMissing(true)
+        objectUrl = URL.createObjectURL(blob)
+        setLocalUrl(objectUrl)
+      })
+      .catch((error) => console.error("Offline tile error:", error))
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [useLocal, x, y, z])
+
+  const url = useLocal ? localUrl : src
+  if (!url || (useLocal && isMissing)) return null
+
+  return (
+    <img
+      src={url}
+      alt=""
+      draggable={false}
+      className="absolute max-w-none"
+      style={style}
+      onError={(event) => {
+        if (useLocal) event.currentTarget.style.visibility = "hidden"
+        else setNetworkFailed(true)
+      }}
+    />
+  )
+}
+
+const distanceBetween = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+export function SlippyMap({
+  center,
+  zoom,
+  radiusKm,
+  bounds,
+  markers,
+  selectedId,
+  path,
+  onMarkerClick,
+  onViewChange,
+  offline = false,
+  className,
+  children,
+}: SlippyMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const source = getTileSource()
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height }),
+    )
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const { width, height } = size
+  const clampZoom = (value: number) => Math.max(source.minZoom, Math.min(source.maxZoom, value))
+  const fitted =
+    bounds && width && height
+      ? fitBounds(bounds, Math.max(1, width - 2 * FIT_PADDING_PX), Math.max(1, height - 2 * FIT_PADDING_PX))
+      : null
+  const viewCenter = (zoom == null && fitted?.center) || center
+  const viewZoom = clampZoom(
+    zoom ??
+      fitted?.zoom ??
+      (width && height && radiusKm ? zoomForRadius(center, radiusKm, width, height) : source.minZoom),
+  )
+  // Tiles only exist at whole zooms; the nearest level is scaled to fit the fractional one
+  const tileZoom = Math.round(viewZoom)
+  const scale = 2 ** (viewZoom - tileZoom)
+
+  const centerPoint = project(viewCenter, tileZoom)
+  const origin = { x: centerPoint.x - width / 2 / scale, y: centerPoint.y - height / 2 / scale }
+  const tiles = width && height ? tilesInView(origin, width / scale, height / scale, tileZoom) : []
+
+  const toScreen = (position: LatLng) => {
+    const point = project(position, tileZoom)
+    return { left: (point.x - origin.x) * scale, top: (point.y - origin.y) * scale }
+  }
+
+  const pathPoints =
+    path && path.length > 1
+      ? path
+          .map((position) => {
+            const { left, top } = toScreen(position)
+            return `${left},${top}`
+          })
+          .join(" ")
+      : null
+
+  // Gesture handlers read the view from here so several moves within one frame build on each other
+  const viewRef = useRef({ center: viewCenter, zoom: viewZoom })
+  viewRef.current = { center: viewCenter, zoom: viewZoom }
+  const onViewChangeRef = useRef(onViewChange)
+  onViewChangeRef.current = onViewChange
+
+  const changeView = (nextCenter: LatLng, nextZoom: number) => {
+    const view = {
+      center: {
+        lat: Math.max(-MAX_CENTER_LATITUDE, Math.min(MAX_CENTER_LATITUDE, nextCenter.lat)),
+        lng: ((((nextCenter.lng + 180) % 360) + 360) % 360) - 180,
+      },
+      zoom: clampZoom(nextZoom),
+    }
+    viewRef.current = view
+    onViewChangeRef.current?.({ ...view, radiusKm: radiusForZoom(view.center, view.zoom, width, height) })
+  }
+
+  const panBy = (dx: number, dy: number) => {
+    const { center, zoom } = viewRef.current
+    const point = project(center, zoom)
+    changeView(unproject({ x: point.x - dx, y: point.y - dy }, zoom), zoom)
+  }
+
+  // Keeps the spot under `anchor` (a point in the view) where it is while zooming
+  const zoomAround = (anchor: Point, nextZoom: number) => {
+    const { center, zoom } = viewRef.current
+    const target = clampZoom(nextZoom)
+    const dx = anchor.x - width / 2
+    const dy = anchor.y - height / 2
+    const point = project(center, zoom)
+    const spot = project(unproject({ x: point.x + dx, y: point.y + dy }, zoom), target)
+    changeView(unproject({ x: spot.x - dx, y: spot.y - dy }, target), target)
+  }
+
+  const zoomAroundRef = useRef(zoomAround)
+  zoomAroundRef.current = zoomAround
+
+  const isInteractive = !!onViewChange
+
+  // React's wheel handler is passive, so it can't stop the page from scrolling underneath
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || !isInteractive) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = container.getBoundingClientRect()
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_PX_PER_LINE : event.deltaY
+      const anchor = { x: event.clientX - rect.left, y: event.clientY - rect.top }
+      zoomAroundRef.current(anchor, viewRef.current.zoom - delta / WHEEL_PX_PER_ZOOM)
+    }
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [isInteractive])
+
+  const gesture = useRef({
+    pointers: new Map<number, Point>(),
+    start: { x: 0, y: 0 },
+    isDragging: false,
+    lastTap: null as { time: number; point: Point } | null,
+  })
+
+  const toLocal = (event: PointerEvent) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!isInteractive) return
+    const { pointers } = gesture.current
+    const point = toLocal(event)
+    pointers.set(event.pointerId, point)
+    if (pointers.size === 1) {
+      gesture.current.start = point
+      gesture.current.isDragging = false
+    } else {
+      // A second finger starts a pinch
+      gesture.current.isDragging = true
+      pointers.forEach((_, id) => event.currentTarget.setPointerCapture(id))
+    }
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const { pointers } = gesture.current
+    const previous = pointers.get(event.pointerId)
+    if (!previous) return
+    const point = toLocal(event)
+
+    if (pointers.size === 1) {
+      if (!gesture.current.isDragging && distanceBetween(point, gesture.current.start) > DRAG_THRESHOLD_PX) {
+        // Capturing only now leaves a plain tap to click the marker under it
+        gesture.current.isDragging = true
+        event.currentTarget.setPointerCapture(event.pointerId)
+      }
+      if (gesture.current.isDragging) panBy(point.x - previous.x, point.y - previous.y)
+    } else if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)![1]
+      const before = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 }
+      const after = { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 }
+      panBy(after.x - before.x, after.y - before.y)
+      const spread = distanceBetween(previous, other)
+      if (spread > 0) zoomAround(after, viewRef.current.zoom + Math.log2(distanceBetween(point, other) / spread))
+    }
+    pointers.set(event.pointerId, point)
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    const { pointers, isDragging, lastTap } = gesture.current
+    if (!pointers.delete(event.pointerId) || pointers.size > 0) return
+    gesture.current.isDragging = false
+    if (isDragging || event.type !== "pointerup") return
+
+    const point = toLocal(event)
+    const now = Date.now()
+    if (lastTap && now - lastTap.time < DOUBLE_TAP_MS && distanceBetween(point, lastTap.point) < DOUBLE_TAP_SLOP_PX) {
+      gesture.current.lastTap = null
+      zoomAround(point, viewRef.current.zoom + 1)
+    } else {
+      gesture.current.lastTap = { time: now, point }
+    }
+  }
+
+  const toPoint = (position: LatLng) => {
+    const { left, top } = toScreen(position)
+    return { x: left, y: top }
+  }
+  const isSelected = (marker: MapMarker) => marker.variant === "place" && marker.id === selectedId
+
+  // Clusters only where they can be zoomed into; the selected place always stands on its own
+  const isClustering = isInteractive && tileZoom < CLUSTER_MAX_ZOOM
+  const clusters = clusterByDistance(
+    markers.filter((marker) => isClustering && marker.variant === "place" && !isSelected(marker)),
+    (marker) => toPoint(marker.position),
+    CLUSTER_RADIUS_PX,
+  ).filter((cluster) => cluster.items.length > 1)
+  const clustered = new Set(clusters.flatMap((cluster) => cluster.items.map(markerKey)))
+  const singles = markers.filter((marker) => !clustered.has(markerKey(marker)))
+
+  const markerBox = (marker: MapMarker) => {
+    const point = toPoint(marker.position)
+    if (marker.variant === "destination") return { left: point.x - 14, top: point.y - 28, width: 28, height: 28 }
+    return boxAround(point, marker.variant === "user" ? 16 : isSelected(marker) ? 26 : 12)
+  }
+  const labelSides = placeLabels(
+    singles
+      .filter((marker) => marker.label)
+      .sort((a, b) => Number(isSelected(b)) - Number(isSelected(a)))
+      .map((marker) => ({
+        id: markerKey(marker),
+        point: toPoint(marker.position),
+        width: Math.min(LABEL_MAX_WIDTH_PX, marker.label!.length * LABEL_CHAR_WIDTH_PX + 8),
+      })),
+    new Map([
+      ...singles.map((marker) => [markerKey(marker), markerBox(marker)] as const),
+      ...clusters.map((cluster, index) => [`cluster-${index}`, boxAround(cluster.point, CLUSTER_SIZE_PX)] as const),
+    ]),
+    size,
+  )
+
+  const expandCluster = (items: MapMarker[]) => {
+    const fit = fitBounds(
+      boundsOf(items.map((marker) => marker.position)),
+      Math.max(1, width - 2 * FIT_PADDING_PX),
+      Math.max(1, height - 2 * FIT_PADDING_PX),
+    )
+    changeView(fit.center, Math.max(fit.zoom, viewRef.current.zoom + 1))
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={cn(
+        "relative overflow-hidden bg-gray-700 select-none",
+        isInteractive && "touch-none cursor-grab active:cursor-grabbing",
+        className,
+      )}
+    >
+      <div className="absolute inset-0 origin-top-left" style={{ transform: `scale(${scale})` }}>
+        {tiles.map(({ key, coord, offset }) => (
+          <MapTile
+            key={key}
+            coord={coord}
+            src={tileUrl(source.urlTemplate, coord)}
+            offline={offline}
+            style={{ left: offset.x, top: offset.y, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+      </div>
+
+      {pathPoints && (
+        <svg className="pointer-events-none absolute inset-0 h-full w-full">
+          {/* A white casing keeps the line readable over dark and busy tiles */}
+          <polyline
+            points={pathPoints}
+            className="fill-none stroke-white/80"
+            strokeWidth={7}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+          <polyline
+            points={pathPoints}
+            className="fill-none stroke-blue-500"
+            strokeWidth={4}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        </svg>
+      )}
+
+      {clusters.map(({ items, point }) => (
+        <button
+          key={`cluster-${markerKey(items[0])}`}
+          type="button"
+          onClick={() => expandCluster(items)}
+          aria-label={`Zoom in on ${items.length} places`}
+          className="absolute"
+          style={{ left: point.x, top: point.y }}
+        >
+          <span
+            className="absolute flex -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-green-600 text-xs font-semibold text-white ring-2 ring-white"
+            style={{ width: CLUSTER_SIZE_PX, height: CLUSTER_SIZE_PX }}
+          >
+            {items.length > 99 ? "99+" : items.length}
+          </span>
+        </button>
+      ))}
+
+      {singles.map((marker) => {
+        const selected = isSelected(marker)
+        const labelSide = labelSides.get(markerKey(marker)) ?? (selected ? "right" : null)
+        return (
+          <button
+            key={markerKey(marker)}
+            type="button"
+            onClick={() => onMarkerClick?.(marker.id)}
+            disabled={!onMarkerClick}
+            title={marker.label}
+            className={cn("absolute disabled:cursor-default", selected && "z-10")}
+            style={toScreen(marker.position)}
+          >
+            {marker.variant === "user" ? (
+              <span className="absolute flex h-4 w-4 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-emerald-500 ring-2 ring-white">
+                <span className="h-1.5 w-1.5 rounded-full bg-white" />
+              </span>
+            ) : marker.variant === "destination" ? (
+              // The pin's tip marks the spot
+              <MapPin className="absolute h-7 w-7 -translate-x-1/2 -translate-y-full fill-red-500 text-white" />
+            ) : (
+              <span
+                className={cn(
+                  "absolute -translate-x-1/2 -translate-y-1/2 rounded-full",
+                  selected ? "h-5 w-5 ring-[3px] ring-yellow-300 shadow-lg" : "h-3 w-3 ring-2 ring-white",
+                )}
+                style={{ backgroundColor: marker.color }}
+              />
+            )}
+            {marker.label && labelSide && (
+              <span
+                className={cn(
+                  "absolute max-w-[7rem] truncate whitespace-nowrap rounded px-1 text-[10px]",
+                  LABEL_POSITION[labelSide],
+                  selected ? "bg-yellow-300 font-semibold text-gray-900" : "bg-gray-900/80 text-white",
+                )}
+              >
+                {marker.label}
+              </span>
+            )}
+          </button>
+        )
+      })}
+
+      {/* Presses on overlay buttons shouldn't pan or zoom the map */}
+      <div className="contents" onPointerDown={(event) => event.stopPropagation()}>
+        {children}
+      </div>
+
+      <span className="absolute bottom-0 right-0 bg-gray-900/70 px-1 text-[10px] text-gray-300">
+        {source.attribution}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,308 @@
+"use client"
+
+import { useEffect, useRef, useState, type ChangeEvent } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { AlertCircle, HardDrive, Loader2, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import type { Bounds } from "@/lib/geo"
+import { countTilesInBounds, getTileSource } from "@/lib/tiles"
+import {
+  deleteTilePack,
+  downloadTilePack,
+  estimateStorage,
+  importPmtilesPack,
+  listTilePacks,
+  type PackProgress,
+} from "@/lib/tiles/pack-store"
+import { AVERAGE_TILE_BYTES, formatBytes, MAX_PACK_TILES, tilePackInputSchema, type TilePack } from "@/lib/tiles/packs"
+
+interface TilePackFormValues {
+  name: string
+  south: string
+  west: string
+  north: string
+  east: string
+  minZoom: string
+  maxZoom: string
+}
+
+const AREA_FIELDS = [
+  { name: "north", label: "North" },
+  { name: "south", label: "South" },
+  { name: "west", label: "West" },
+  { name: "east", label: "East" },
+  { name: "minZoom", label: "Min zoom" },
+  { name: "maxZoom", label: "Max zoom" },
+] as const
+
+interface TilePackManagerProps {
+  // Offered as the area to download, usually what the map shows
+  bounds: Bounds
+  onBack: () => void
+}
+
+export function TilePackManager({ bounds, onBack }: TilePackManagerProps) {
+  const [packs, setPacks] = useState<TilePack[]>([])
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null)
+  const [progress, setProgress] = useState<PackProgress | null>(null)
+  const [error, setError] = useState("")
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const form = useForm<TilePackFormValues>({
+    resolver: zodResolver(tilePackInputSchema),
+    defaultValues: {
+      name: "",
+      south: bounds.south.toFixed(4),
+      west: bounds.west.toFixed(4),
+      north: bounds.north.toFixed(4),
+      east: bounds.east.toFixed(4),
+      minZoom: "8",
+      maxZoom: "15",
+    },
+  })
+
+  // Bumped after every change to reread the packs and storage
+  const [version, setVersion] = useState(0)
+  const refresh = () => setVersion((current) => current + 1)
+
+  useEffect(() => {
+    listTilePacks()
+      .then(setPacks)
+      .catch((error) => {
+        setError("Failed to read the offline maps on this device.")
+        console.error("Tile pack list error:", error)
+      })
+    estimateStorage()
+      .then(setStorage)
+      .catch((error) => console.error("Storage estimate error:", error))
+  }, [version])
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const values = form.watch()
+  const [north, south, west, east, minZoom, maxZoom] = AREA_FIELDS.map(({ name }) => Number(values[name]))
+  const estimatedTiles =
+    [south, west, north, east, minZoom, maxZoom].every(Number.isFinite) && north > south && east > west
+      ? countTilesInBounds({ south, west, north, east }, Math.max(0, minZoom), Math.min(19, maxZoom))
+      : null
+
+  const packBytes = packs.reduce((total, pack) => total + pack.bytes, 0)
+  const isBusy = progress !== null
+
+  const run = async (work: (signal: AbortSignal) => Promise<TilePack>) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError("")
+    setProgress({ done: 0, total: 0 })
+
+    try {
+      await work(controller.signal)
+      form.reset({ ...form.getValues(), name: "" })
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setError((error as Error).message || "Failed to save the offline map.")
+        console.error("Tile pack error:", error)
+      }
+    }
+
+    abortRef.current = null
+    setProgress(null)
+    refresh()
+  }
+
+  const download = (values: TilePackFormValues) =>
+    run((signal) =>
+      downloadTilePack(tilePackInputSchema.parse(values), getTileSource().urlTemplate, setProgress, signal),
+    )
+
+  const importFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    if (/\.mbtiles$/i.test(file.name)) {
+      setError("MBTiles can't be read here. Convert it first: pmtiles convert area.mbtiles area.pmtiles")
+      return
+    }
+    run((signal) => importPmtilesPack(file, file.name.replace(/\.pmtiles$/i, ""), setProgress, signal))
+  }
+
+  const remove = async (pack: TilePack) => {
+    setDeletingId(pack.id)
+    setError("")
+
+    try {
+      await deleteTilePack(pack.id)
+    } catch (error) {
+      setError("Failed to delete the offline map.")
+      console.error("Tile pack delete error:", error)
+    }
+
+    setDeletingId(null)
+    refresh()
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col">
+      <div className="bg-gray-800 p-4 border-b border-gray-700">
+        <div className="flex items-center justify-between">
+          <Button onClick={onBack} variant="outline" size="sm" className="border-gray-600 text-gray-300">
+            ← Back
+          </Button>
+          <h1 className="text-lg font-semibold text-white">Offline Maps</h1>
+          <HardDrive className="h-5 w-5 text-green-400" />
+        </div>
+      </div>
+
+      <div className="flex-1 p-4 space-y-4">
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-1 text-sm">
+          <p className="text-white">Offline maps use {formatBytes(packBytes)}</p>
+          {storage && (
+            <p className="text-gray-400">
+              Device storage for this app: {formatBytes(storage.usage)} of {formatBytes(storage.quota)}
+            </p>
+          )}
+          <p className="text-xs text-gray-500">Saved areas are drawn from the device whenever there is no signal.</p>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 text-red-400 text-sm">
+            <AlertCircle className="h-4 w-4 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        {progress && (
+          <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-2">
+            <div className="flex items-center justify-between text-sm text-gray-300">
+              <span>
+                Saving tiles… {progress.done.toLocaleString()}
+                {progress.total > 0 && ` of ${progress.total.toLocaleString()}`}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => abortRef.current?.abort()}
+                className="h-7 text-gray-300 hover:text-white hover:bg-gray-700"
+              >
+                Cancel
+              </Button>
+            </div>
+            <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+          </div>
+        )}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(download)}
+            className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3"
+          >
+            <h2 className="font-medium text-white">Download an area</h2>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-gray-300">Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. Pathankot AO"
+                      className="bg-gray-700 border-gray-600 text-white"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              {AREA_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-300">{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          inputMode="decimal"
+                          className="bg-gray-700 border-gray-600 text-white"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            {estimatedTiles !== null && (
+              <p className={`text-sm ${estimatedTiles > MAX_PACK_TILES ? "text-yellow-400" : "text-gray-400"}`}>
+                {estimatedTiles.toLocaleString()} tiles, about {formatBytes(estimatedTiles * AVERAGE_TILE_BYTES)}
+              </p>
+            )}
+            <Button type="submit" disabled={isBusy} className="w-full bg-green-600 hover:bg-green-700">
+              {isBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Download
+            </Button>
+          </form>
+        </Form>
+
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-2">
+          <h2 className="font-medium text-white">Import a tile archive</h2>
+          <p className="text-xs text-gray-500">
+            Raster PMTiles files, e.g. from a formation map server. Convert MBTiles with `pmtiles convert` first.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <Upload className="h-4 w-4" />
+            <Input
+              type="file"
+              accept=".pmtiles"
+              onChange={importFile}
+              disabled={isBusy}
+              className="bg-gray-700 border-gray-600 text-gray-300"
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="text-sm font-medium text-gray-400">Saved areas</h2>
+          {packs.length === 0 ? (
+            <p className="text-sm text-gray-500">No offline maps on this device</p>
+          ) : (
+            packs.map((pack) => (
+              <div
+                key={pack.id}
+                className="flex items-center justify-between gap-2 bg-gray-800 rounded-lg p-3 border border-gray-700"
+              >
+                <div className="text-sm">
+                  <p className="text-white">{pack.name}</p>
+                  <p className="text-xs text-gray-400">
+                    Zoom {pack.minZoom}–{pack.maxZoom} · {pack.tileCount.toLocaleString()} tiles ·{" "}
+                    {formatBytes(pack.bytes)}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => remove(pack)}
+                  disabled={deletingId === pack.id || isBusy}
+                  className="h-8 w-8 text-gray-400 hover:text-red-400 hover:bg-gray-700"
+                  aria-label={`Delete ${pack.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import * as React from "react"
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart", "scroll"] as const
+const CHECK_INTERVAL_MS = 15 * 1000
+const KEEPALIVE_INTERVAL_MS = 60 * 1000
+
+// Ends the session after the server-configured period without user input.
+// While the user is active the session is pinged now and then so the server-side
+// idle timer (which only sees API calls) stays in step with what the user is doing.
+export function useIdleTimeout(enabled: boolean, onExpire: () => void) {
+  const onExpireRef = React.useRef(onExpire)
+  onExpireRef.current = onExpire
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let idleTimeoutMs: number | null = null
+    let lastActivity = Date.now()
+    let lastKeepalive = Date.now()
+    let expired = false
+
+    const expire = () => {
+      if (expired) return
+      expired = true
+      onExpireRef.current()
+    }
+
+    const keepalive = () => {
+      lastKeepalive = Date.now()
+      fetch("/api/auth/session")
+        .then(async (response) => {
+          if (response.status === 401) return expire()
+          if (response.ok) idleTimeoutMs = (await response.json()).idleTimeoutMs
+        })
+        .catch((error) => console.error("Session keepalive error:", error))
+    }
+
+    const markActive = () => {
+      lastActivity = Date.now()
+    }
+
+    const check = () => {
+      const now = Date.now()
+      if (idleTimeoutMs !== null && now - lastActivity > idleTimeoutMs) return expire()
+      if (lastActivity > lastKeepalive && now - lastKeepalive > KEEPALIVE_INTERVAL_MS) keepalive()
+    }
+
+    keepalive()
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }))
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive))
+      window.clearInterval(interval)
+    }
+  }, [enabled])
+}
@@ -0,0 +1,46 @@
+import { appendJsonLine } from "@/lib/storage/json-file"
+
+const AUDIT_FILE = "audit.log"
+
+export type AuditEvent =
+  | "login.success"
+  | "login.failure"
+  | "login.locked"
+  | "mfa.success"
+  | "mfa.failure"
+  | "mfa.enrolled"
+  | "logout"
+  | "session.expired"
+  | "booking.status"
+
+export interface AuditEntry {
+  timestamp: string
+  event: AuditEvent
+  armyNumber: string
+  ip: string | null
+  detail?: string
+}
+
+export const getClientIp = (request: Request) =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip")
+
+// Audit failures must never break a login or the change being audited, so errors are only logged
+export async function recordAudit(
+  request: Request,
+  event: AuditEvent,
+  armyNumber: string,
+  detail?: string,
+): Promise<void> {
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    event,
+    armyNumber,
+    ip: getClientIp(request),
+    ...(detail ? { detail } : {}),
+  }
+  try {
+    await appendJsonLine(AUDIT_FILE, entry)
+  } catch (error) {
+    console.error("Audit log error:", error)
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server"
+import { recordAudit, type AuditEvent } from "@/lib/auth/audit"
+import { normalizeArmyNumber } from "@/lib/auth/user-store"
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+
+// Progressive lockout per Army Number: after RATURI_LOCKOUT_THRESHOLD consecutive failures
+// (default 5) the account is locked for RATURI_LOCKOUT_MINUTES (default 5), doubling with
+// each further lockout up to a day. A successful login clears the counters.
+
+const ATTEMPTS_FILE = "login-attempts.json"
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000
+
+interface AttemptRecord {
+  failures: number
+  lockouts: number
+  lockedUntil?: number
+}
+
+type AttemptTable = Record<string, AttemptRecord>
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseFloat(value || "")
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+const getThreshold = () => readPositiveNumber(process.env.RATURI_LOCKOUT_THRESHOLD, 5)
+const getBaseLockoutMs = () => readPositiveNumber(process.env.RATURI_LOCKOUT_MINUTES, 5) * 60 * 1000
+
+// Milliseconds until the account unlocks, or 0 when it may try again
+export async function getLockoutRemaining(armyNumber: string): Promise<number> {
+  const attempts = await readJsonFile<AttemptTable>(ATTEMPTS_FILE, {})
+  const lockedUntil = attempts[normalizeArmyNumber(armyNumber)]?.lockedUntil ?? 0
+  return Math.max(0, lockedUntil - Date.now())
+}
+
+export async function recordFailedAttempt(
+  armyNumber: string,
+): Promise<{ attemptsRemaining: number; lockedForMs: number }> {
+  return updateJsonFile<AttemptTable, { attemptsRemaining: number; lockedForMs: number }>(
+    ATTEMPTS_FILE,
+    {},
+    (attempts) => {
+      const key = normalizeArmyNumber(armyNumber)
+      const record = attempts[key] ?? { failures: 0, lockouts: 0 }
+      record.failures += 1
+
+      const threshold = getThreshold()
+      let lockedForMs = 0
+      if (record.failures >= threshold) {
+        lockedForMs = Math.min(getBaseLockoutMs() * 2 ** record.lockouts, MAX_LOCKOUT_MS)
+        record.lockedUntil = Date.now() + lockedForMs
+        record.lockouts += 1
+        record.failures = 0
+      }
+
+      attempts[key] = record
+      return { attemptsRemaining: lockedForMs ? 0 : threshold - record.failures, lockedForMs }
+    },
+  )
+}
+
+export async function clearFailedAttempts(armyNumber: string): Promise<void> {
+  await updateJsonFile<AttemptTable, void>(ATTEMPTS_FILE, {}, (attempts) => {
+    delete attempts[normalizeArmyNumber(armyNumber)]
+  })
+}
+
+export const formatLockout = (ms: number) => {
+  const minutes = Math.ceil(ms / 60000)
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`
+}
+
+export const lockedResponse = (remainingMs: number) =>
+  NextResponse.json(
+    { error: `Too many failed attempts. Try again in ${formatLockout(remainingMs)}.`, lockedForMs: remainingMs },
+    { status: 429 },
+  )
+
+// Counts a failed password or code, audits it and builds the response for the client
+export async function rejectAttempt(
+  request: Request,
+  armyNumber: string,
+  event: AuditEvent,
+  message: string,
+): Promise<NextResponse> {
+  const { attemptsRemaining, lockedForMs } = await recordFailedAttempt(armyNumber)
+  await recordAudit(request, event, armyNumber, lockedForMs ? `locked for ${formatLockout(lockedForMs)}` : undefined)
+
+  if (lockedForMs) return lockedResponse(lockedForMs)
+
+  const warning =
+    attemptsRemaining <= 2
+      ? ` ${attemptsRemaining} attempt${attemptsRemaining === 1 ? "" : "s"} left before the account is locked.`
+      : ""
+  return NextResponse.json({ error: `${message}${warning}`, attemptsRemaining }, { status: 401 })
+}
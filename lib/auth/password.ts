@@ -0,0 +1,25 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+
+const KEY_LENGTH = 64
+const SCRYPT_COST = 16384
+
+const deriveKey = (password: string, salt: Buffer, cost: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N: cost }, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+
+// Encoded as `scrypt$<cost>$<salt>$<hash>` so the cost can be raised later without breaking old hashes
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt, SCRYPT_COST)
+  return ["scrypt", SCRYPT_COST, salt.toString("base64"), key.toString("base64")].join("$")
+}
+
+export async function verifyPassword(password: string, encoded: string): Promise<boolean> {
+  const [scheme, cost, salt, hash] = encoded.split("$")
+  if (scheme !== "scrypt" || !cost || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, "base64")
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), Number.parseInt(cost, 10))
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
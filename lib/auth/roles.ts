@@ -0,0 +1,27 @@
+// Shared by the UI and the API routes, so keep this free of server-only imports
+
+export const ROLES = ["troop", "billeting_officer", "mt_officer", "admin"] as const
+
+export type Role = (typeof ROLES)[number]
+
+// Which place categories a role sees is declared per category in lib/categories.ts
+export type Permission = "bookings:create" | "locations:edit" | "admin:access"
+
+export const ROLE_LABELS: Record<Role, string> = {
+  troop: "Troop",
+  billeting_officer: "Billeting Officer",
+  mt_officer: "MT Officer",
+  admin: "Admin",
+}
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  troop: [],
+  billeting_officer: ["bookings:create", "locations:edit"],
+  mt_officer: [],
+  admin: ["bookings:create", "locations:edit", "admin:access"],
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+export const hasPermission = (role: Role | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission)
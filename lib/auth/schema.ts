@@ -0,0 +1,21 @@
+import { z } from "zod"
+
+// Shared by the login form and /api/auth/login so both reject the same input.
+// Service numbers are a letter prefix, digits and a check letter, e.g. IC-56789K or JC123456L.
+export const ARMY_NUMBER_PATTERN = /^[A-Z]{2,3}\d{4,7}[A-Z]$/
+
+export const armyNumberSchema = z
+  .string()
+  .trim()
+  .min(1, "Army Number is required")
+  .transform((value) => value.toUpperCase().replace(/[\s-]/g, ""))
+  .refine((value) => ARMY_NUMBER_PATTERN.test(value), {
+    message: "Use the service number format, e.g. IC-56789K (prefix letters, digits, check letter)",
+  })
+
+export const loginSchema = z.object({
+  armyNumber: armyNumberSchema,
+  password: z.string().min(1, "Password is required"),
+})
+
+export type LoginInput = z.input<typeof loginSchema>
@@ -0,0 +1,147 @@
+import { createHash, randomBytes } from "crypto"
+import { cookies } from "next/headers"
+import { NextResponse } from "next/server"
+import { hasPermission, type Permission } from "@/lib/auth/roles"
+import { getUserStore, toSessionUser, type SessionUser } from "@/lib/auth/user-store"
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+
+export const SESSION_COOKIE = "raturi_session"
+
+const SESSIONS_FILE = "sessions.json"
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000 // 12 hours
+const PENDING_SESSION_TTL_MS = 10 * 60 * 1000 // 10 minutes to complete the second factor
+const TOUCH_INTERVAL_MS = 60 * 1000 // don't rewrite the sessions file on every request
+
+// Active sessions end after this much inactivity (RATURI_SESSION_IDLE_MINUTES, default 15)
+export const getIdleTimeoutMs = () => {
+  const minutes = Number.parseFloat(process.env.RATURI_SESSION_IDLE_MINUTES || "")
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 15) * 60 * 1000
+}
+
+// A password alone only gets a session in "mfa" (enter a code) or "enroll" (set up TOTP) stage;
+// just "active" sessions can use the app.
+export type SessionStage = "enroll" | "mfa" | "active"
+
+export interface SessionRecord {
+  userId: string
+  stage: SessionStage
+  createdAt: number
+  lastSeenAt: number
+  expiresAt: number
+}
+
+type SessionTable = Record<string, SessionRecord>
+
+// Only a hash of the token is persisted, so a leaked sessions file can't be replayed
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex")
+
+const ttlFor = (stage: SessionStage) => (stage === "active" ? SESSION_TTL_MS : PENDING_SESSION_TTL_MS)
+
+const isExpired = (session: SessionRecord, now: number) =>
+  session.expiresAt <= now ||
+  (session.stage === "active" && now - (session.lastSeenAt ?? session.createdAt) > getIdleTimeoutMs())
+
+export async function createSession(
+  userId: string,
+  stage: SessionStage = "active",
+): Promise<{ token: string; expiresAt: number }> {
+  const token = randomBytes(32).toString("base64url")
+  const now = Date.now()
+  const record: SessionRecord = { userId, stage, createdAt: now, lastSeenAt: now, expiresAt: now + ttlFor(stage) }
+
+  await updateJsonFile<SessionTable, void>(SESSIONS_FILE, {}, (sessions) => {
+    // Drop expired sessions while we're here
+    for (const [key, session] of Object.entries(sessions)) {
+      if (isExpired(session, now)) delete sessions[key]
+    }
+    sessions[hashToken(token)] = record
+  })
+
+  return { token, expiresAt: record.expiresAt }
+}
+
+// Looks up a session even if it has already expired (e.g. to audit who timed out)
+export async function findSessionRecord(token: string): Promise<SessionRecord | null> {
+  const sessions = await readJsonFile<SessionTable>(SESSIONS_FILE, {})
+  return sessions[hashToken(token)] ?? null
+}
+
+export async function getSession(token: string): Promise<SessionRecord | null> {
+  const session = await findSessionRecord(token)
+  if (!session || isExpired(session, Date.now())) return null
+  return session
+}
+
+// Records activity on an active session so the idle timeout starts over
+async function touchSession(token: string): Promise<void> {
+  await updateJsonFile<SessionTable, void>(SESSIONS_FILE, {}, (sessions) => {
+    const session = sessions[hashToken(token)]
+    if (session && !isExpired(session, Date.now())) session.lastSeenAt = Date.now()
+  })
+}
+
+// Promotes a pending session once the second factor checks out
+export async function activateSession(token: string): Promise<number | null> {
+  return updateJsonFile<SessionTable, number | null>(SESSIONS_FILE, {}, (sessions) => {
+    const session = sessions[hashToken(token)]
+    if (!session || isExpired(session, Date.now())) return null
+    session.stage = "active"
+    session.lastSeenAt = Date.now()
+    session.expiresAt = Date.now() + SESSION_TTL_MS
+    return session.expiresAt
+  })
+}
+
+export async function destroySession(token: string): Promise<void> {
+  await updateJsonFile<SessionTable, void>(SESSIONS_FILE, {}, (sessions) => {
+    delete sessions[hashToken(token)]
+  })
+}
+
+export function setSessionCookie(token: string, expiresAt: number) {
+  cookies().set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(expiresAt),
+  })
+}
+
+export function clearSessionCookie() {
+  cookies().delete(SESSION_COOKIE)
+}
+
+export async function getCookieSession(): Promise<{ token: string; session: SessionRecord } | null> {
+  const token = cookies().get(SESSION_COOKIE)?.value
+  if (!token) return null
+
+  const session = await getSession(token)
+  return session ? { token, session } : null
+}
+
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const current = await getCookieSession()
+  if (!current || current.session.stage !== "active") return null
+  const { token, session } = current
+
+  if (Date.now() - (session.lastSeenAt ?? session.createdAt) > TOUCH_INTERVAL_MS) {
+    await touchSession(token)
+  }
+
+  const store = await getUserStore()
+  const user = await store.findById(session.userId)
+  return user ? toSessionUser(user) : null
+}
+
+// For route handlers: returns the user, or the error response to send back as-is
+export async function requirePermission(permission: Permission): Promise<SessionUser | NextResponse> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+  }
+  if (!hasPermission(user.role, permission)) {
+    return NextResponse.json({ error: "You do not have access to this resource." }, { status: 403 })
+  }
+  return user
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto"
+import { hashPassword } from "@/lib/auth/password"
+import type { Role } from "@/lib/auth/roles"
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+
+export interface TotpEnrollment {
+  secret: string
+  // False until the user proves possession of the secret with a first valid code
+  enabled: boolean
+  // Last accepted time step, so a code can't be replayed inside its window
+  lastStep?: number
+  // SHA-256 hashes of unused backup codes
+  backupCodes: string[]
+}
+
+export interface User {
+  id: string
+  armyNumber: string
+  passwordHash: string
+  role: Role
+  createdAt: string
+  totp?: TotpEnrollment
+}
+
+// What the client is allowed to see about the logged in user
+export interface SessionUser {
+  id: string
+  armyNumber: string
+  role: Role
+}
+
+export interface UserStore {
+  findByArmyNumber(armyNumber: string): Promise<User | null>
+  findById(id: string): Promise<User | null>
+  list(): Promise<User[]>
+  create(input: { armyNumber: string; password: string; role: Role }): Promise<User>
+  update(id: string, patch: Partial<Omit<User, "id">>): Promise<User | null>
+}
+
+// Matches the normalisation in armyNumberSchema, so "ic-56789k" and "IC56789K" are the same account
+export const normalizeArmyNumber = (armyNumber: string) => armyNumber.trim().toUpperCase().replace(/[\s-]/g, "")
+
+export const toSessionUser = (user: User): SessionUser => ({
+  id: user.id,
+  armyNumber: user.armyNumber,
+  role: user.role,
+})
+
+export function createJsonUserStore(fileName = "users.json"): UserStore {
+  // Accounts created before roles existed default to the least privileged role
+  const load = async () =>
+    (await readJsonFile<User[]>(fileName, [])).map((user) => ({ ...user, role: user.role ?? "troop" }))
+
+  return {
+    async findByArmyNumber(armyNumber) {
+      const users = await load()
+      return users.find((user) => user.armyNumber === normalizeArmyNumber(armyNumber)) ?? null
+    },
+    async findById(id) {
+      const users = await load()
+      return users.find((user) => user.id === id) ?? null
+    },
+    list: load,
+    async create({ armyNumber, password, role }) {
+      const user: User = {
+        id: randomUUID(),
+        armyNumber: normalizeArmyNumber(armyNumber),
+        passwordHash: await hashPassword(password),
+        role,
+        createdAt: new Date().toISOString(),
+      }
+      await updateJsonFile<User[], void>(fileName, [], (users) => {
+        if (users.some((existing) => existing.armyNumber === user.armyNumber)) {
+          throw new Error(`User ${user.armyNumber} already exists`)
+        }
+        users.push(user)
+      })
+      return user
+    },
+    update(id, patch) {
+      return updateJsonFile<User[], User | null>(fileName, [], (users) => {
+        const user = users.find((existing) => existing.id === id)
+        if (!user) return null
+        Object.assign(user, patch)
+        return user
+      })
+    },
+  }
+}
+
+// Other backends (e.g. SQLite) only need to implement UserStore and be registered here
+const userStoreFactories: Record<string, () => UserStore> = {
+  json: () => createJsonUserStore(process.env.RATURI_USERS_FILE),
+}
+
+let userStore: UserStore | null = null
+let bootstrapped: Promise<void> | null = null
+
+// The first account is created from RATURI_ADMIN_ARMY_NUMBER / RATURI_ADMIN_PASSWORD
+// when the store is empty, so no credentials ever ship in the bundle.
+const bootstrapUsers = async (store: UserStore) => {
+  const armyNumber = process.env.RATURI_ADMIN_ARMY_NUMBER
+  const password = process.env.RATURI_ADMIN_PASSWORD
+  if (!armyNumber || !password) return
+
+  const users = await store.list()
+  if (users.length === 0) {
+    await store.create({ armyNumber, password, role: "admin" })
+  }
+}
+
+export async function getUserStore(): Promise<UserStore> {
+  if (!userStore) {
+    const kind = process.env.RATURI_USER_STORE || "json"
+    const factory = userStoreFactories[kind]
+    if (!factory) throw new Error(`Unknown user store "${kind}"`)
+    userStore = factory()
+  }
+  if (!bootstrapped) bootstrapped = bootstrapUsers(userStore)
+  await bootstrapped
+  return userStore
+}
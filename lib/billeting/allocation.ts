@@ -0,0 +1,153 @@
+// Splits a unit's strength across several billets. Each billet houses a single gender; rank groups may
+// share a billet but are kept together where they fit, officers first.
+
+export const RANK_GROUPS = ["officers", "jcos", "ors"] as const
+export type RankGroup = (typeof RANK_GROUPS)[number]
+
+export const RANK_GROUP_LABELS: Record<RankGroup, string> = {
+  officers: "Officers",
+  jcos: "JCOs",
+  ors: "Other Ranks",
+}
+
+export const GENDERS = ["male", "female"] as const
+export type Gender = (typeof GENDERS)[number]
+
+export const GENDER_LABELS: Record<Gender, string> = { male: "Male", female: "Female" }
+
+export type RankCounts = Record<RankGroup, number>
+export type Strength = Record<Gender, RankCounts>
+
+export interface BilletCandidate {
+  locationId: string
+  capacity: number
+  // From the assembly point
+  distanceKm: number
+}
+
+export interface BilletAllocation {
+  locationId: string
+  gender: Gender
+  counts: RankCounts
+}
+
+export interface AllocationPlan {
+  billets: BilletAllocation[]
+  // Personnel that didn't fit anywhere
+  unallocated: Strength
+}
+
+export const emptyCounts = (): RankCounts => ({ officers: 0, jcos: 0, ors: 0 })
+
+export const emptyStrength = (): Strength => ({ male: emptyCounts(), female: emptyCounts() })
+
+export const sumCounts = (counts: RankCounts) => RANK_GROUPS.reduce((total, group) => total + counts[group], 0)
+
+export const sumStrength = (strength: Strength) =>
+  GENDERS.reduce((total, gender) => total + sumCounts(strength[gender]), 0)
+
+// Fewest billets first, then the tightest spread: of all sets of that size that can hold `needed`,
+// take the one whose farthest billet is nearest the assembly point
+const chooseBillets = (candidates: BilletCandidate[], needed: number): BilletCandidate[] => {
+  const byDistance = [...candidates].sort((a, b) => a.distanceKm - b.distanceKm)
+  const largestFirst = (pool: BilletCandidate[]) =>
+    [...pool].sort((a, b) => b.capacity - a.capacity || a.distanceKm - b.distanceKm)
+  const countNeeded = (pool: BilletCandidate[]) => {
+    let total = 0
+    const sorted = largestFirst(pool)
+    const index = sorted.findIndex((candidate) => (total += candidate.capacity) >= needed)
+    return index === -1 ? Infinity : index + 1
+  }
+
+  const fewest = countNeeded(byDistance)
+  // Not enough room anywhere: use every billet and leave the rest unallocated
+  if (fewest === Infinity) return byDistance
+
+  for (let size = fewest; size <= byDistance.length; size++) {
+    const nearest = byDistance.slice(0, size)
+    if (countNeeded(nearest) === fewest) {
+      return largestFirst(nearest)
+        .slice(0, fewest)
+        .sort((a, b) => a.distanceKm - b.distanceKm)
+    }
+  }
+  return byDistance
+}
+
+export const proposeAllocation = (strength: Strength, candidates: BilletCandidate[]): AllocationPlan => {
+  const billets: BilletAllocation[] = []
+  const unallocated = emptyStrength()
+  let available = candidates.filter((candidate) => candidate.capacity > 0)
+
+  // The larger contingent picks first so it gets the nearest large billets
+  const genders = [...GENDERS].sort((a, b) => sumCounts(strength[b]) - sumCounts(strength[a]))
+  for (const gender of genders) {
+    const remaining = { ...strength[gender] }
+    if (sumCounts(remaining) === 0) continue
+
+    for (const candidate of chooseBillets(available, sumCounts(remaining))) {
+      let free = candidate.capacity
+      const counts = emptyCounts()
+      for (const group of RANK_GROUPS) {
+        const placed = Math.min(free, remaining[group])
+        counts[group] = placed
+        remaining[group] -= placed
+        free -= placed
+      }
+      if (sumCounts(counts) === 0) continue
+
+      billets.push({ locationId: candidate.locationId, gender, counts })
+      available = available.filter((other) => other.locationId !== candidate.locationId)
+    }
+    unallocated[gender] = remaining
+  }
+
+  return { billets, unallocated }
+}
+
+export interface TroopMove {
+  // null is the unallocated pool
+  from: string | null
+  to: string | null
+  gender: Gender
+  rankGroup: RankGroup
+  count: number
+}
+
+export const getBilletGender = (plan: AllocationPlan, locationId: string): Gender | null =>
+  plan.billets.find((billet) => billet.locationId === locationId)?.gender ?? null
+
+// Moves as many as fit in the target; a billet already housing the other gender takes none
+export const moveTroops = (
+  plan: AllocationPlan,
+  { from, to, gender, rankGroup, count }: TroopMove,
+  capacities: Record<string, number>,
+): AllocationPlan => {
+  if (from === to) return plan
+  const targetGender = to === null ? null : getBilletGender(plan, to)
+  if (targetGender && targetGender !== gender) return plan
+
+  const source = from === null ? plan.unallocated[gender] : plan.billets.find((b) => b.locationId === from)?.counts
+  const targetCounts = to === null ? null : plan.billets.find((b) => b.locationId === to)?.counts
+  const free = to === null ? Infinity : capacities[to] - (targetCounts ? sumCounts(targetCounts) : 0)
+  const moved = Math.max(0, Math.min(count, source?.[rankGroup] ?? 0, free))
+  if (moved === 0) return plan
+
+  const adjust = (counts: RankCounts, delta: number) => ({ ...counts, [rankGroup]: counts[rankGroup] + delta })
+  let billets = plan.billets.map((billet) => {
+    if (billet.locationId === from) return { ...billet, counts: adjust(billet.counts, -moved) }
+    if (billet.locationId === to) return { ...billet, counts: adjust(billet.counts, moved) }
+    return billet
+  })
+  if (to !== null && !targetCounts) {
+    billets.push({ locationId: to, gender, counts: adjust(emptyCounts(), moved) })
+  }
+  // An emptied billet is released, so it can take either gender again
+  billets = billets.filter((billet) => sumCounts(billet.counts) > 0)
+
+  const unallocated = { ...plan.unallocated }
+  if (from === null) unallocated[gender] = adjust(unallocated[gender], -moved)
+  if (to === null) unallocated[gender] = adjust(unallocated[gender], moved)
+
+  return { billets, unallocated }
+}
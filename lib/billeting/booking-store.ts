@@ -0,0 +1,88 @@
+import { randomUUID } from "crypto"
+import { hasPermission } from "@/lib/auth/roles"
+import type { SessionUser } from "@/lib/auth/user-store"
+import {
+  BOOKING_TRANSITIONS,
+  bookingsOverlap,
+  findOverbookedNights,
+  isActiveBooking,
+  type Booking,
+  type BookingDetails,
+  type BookingStatus,
+} from "@/lib/billeting/booking"
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+
+const BOOKINGS_FILE = "bookings.json"
+
+export async function listBookings(locationId?: string): Promise<Booking[]> {
+  const bookings = await readJsonFile<Booking[]>(BOOKINGS_FILE, [])
+  return bookings
+    .filter((booking) => !locationId || booking.locationId === locationId)
+    .sort((a, b) => a.checkIn.localeCompare(b.checkIn))
+}
+
+type CreateBookingResult = { booking: Booking } | { conflict: Booking } | { overbooked: string[] }
+
+// Checked and written under the same file lock, so two units can't grab the same place at once.
+// With a known capacity the place is shared until a night would be over it, and the offending nights
+// come back as `overbooked`; without one the place goes to a single unit and a clash returns `conflict`.
+export async function createBooking(
+  details: BookingDetails,
+  createdBy: string,
+  capacity?: number,
+): Promise<CreateBookingResult> {
+  return updateJsonFile<Booking[], CreateBookingResult>(BOOKINGS_FILE, [], (bookings) => {
+    const overlapping = bookings.filter(
+      (booking) =>
+        booking.locationId === details.locationId && isActiveBooking(booking) && bookingsOverlap(booking, details),
+    )
+    if (capacity === undefined) {
+      if (overlapping.length > 0) return { conflict: overlapping[0] }
+    } else {
+      const overbooked = findOverbookedNights(overlapping, details, capacity)
+      if (overbooked.length > 0) return { overbooked }
+    }
+
+    const now = new Date().toISOString()
+    const booking: Booking = {
+      ...details,
+      id: randomUUID(),
+      status: "requested",
+      createdAt: now,
+      createdBy,
+      updatedAt: now,
+    }
+    bookings.push(booking)
+    return { booking }
+  })
+}
+
+type UpdateBookingStatusResult =
+  { booking: Booking; previous: BookingStatus } | { invalid: Booking } | { forbidden: Booking } | null
+
+// Users don't carry a unit, so a caller's units are the ones they have booked for themselves. Admins can
+// change any booking.
+const canChangeBooking = (booking: Booking, bookings: Booking[], user: SessionUser) =>
+  hasPermission(user.role, "admin:access") ||
+  booking.createdBy === user.armyNumber ||
+  bookings.some((other) => other.createdBy === user.armyNumber && other.unit === booking.unit)
+
+// Only moves along BOOKING_TRANSITIONS; otherwise hands back the booking unchanged as `invalid`, or as
+// `forbidden` when it belongs to another unit
+export async function updateBookingStatus(
+  id: string,
+  status: BookingStatus,
+  user: SessionUser,
+): Promise<UpdateBookingStatusResult> {
+  return updateJsonFile<Booking[], UpdateBookingStatusResult>(BOOKINGS_FILE, [], (bookings) => {
+    const booking = bookings.find((existing) => existing.id === id)
+    if (!booking) return null
+    if (!canChangeBooking(booking, bookings, user)) return { forbidden: booking }
+    if (!BOOKING_TRANSITIONS[booking.status].includes(status)) return { invalid: booking }
+
+    const previous = booking.status
+    booking.status = status
+    booking.updatedAt = new Date().toISOString()
+    return { booking, previous }
+  })
+}
@@ -0,0 +1,135 @@
+import { z } from "zod"
+
+// Shared by the booking form and /api/bookings. Dates are local calendar days ("YYYY-MM-DD");
+// a booking occupies every night from checkIn up to, but not including, checkOut.
+
+export const BOOKING_STATUSES = ["requested", "confirmed", "cancelled", "checked_in"] as const
+export type BookingStatus = (typeof BOOKING_STATUSES)[number]
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  requested: "Requested",
+  confirmed: "Confirmed",
+  cancelled: "Cancelled",
+  checked_in: "Checked in",
+}
+
+// Which status changes are allowed from each status
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  requested: ["confirmed", "cancelled"],
+  confirmed: ["checked_in", "cancelled"],
+  checked_in: [],
+  cancelled: [],
+}
+
+export const isBookingStatus = (value: unknown): value is BookingStatus =>
+  BOOKING_STATUSES.includes(value as BookingStatus)
+
+// Cancelled bookings no longer hold the place
+export const isActiveBooking = (booking: Pick<Booking, "status">) => booking.status !== "cancelled"
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Occupancy is worked out night by night, so an open-ended stay would tie up the bookings file
+export const MAX_STAY_NIGHTS = 90
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// Rejects dates such as 2024-02-30 that Date would quietly roll over into the next month
+const isCalendarDate = (key: string) => toDateKey(fromDateKey(key)) === key
+
+const dateKey = (label: string) =>
+  z.string().regex(DATE_KEY_PATTERN, `${label} is required`).refine(isCalendarDate, `${label} is not a valid date`)
+
+export const bookingInputSchema = z
+  .object({
+    locationId: z.string().min(1),
+    locationName: z.string().trim().min(1),
+    checkIn: dateKey("Check-in date"),
+    checkOut: dateKey("Check-out date"),
+    personnel: z.coerce
+      .number({ invalid_type_error: "Number of personnel is required" })
+      .int("Use a whole number")
+      .min(1, "At least one person"),
+    unit: z.string().trim().min(1, "Unit is required").max(100),
+    contactName: z.string().trim().min(1, "Contact name is required").max(100),
+    contactPhone: z
+      .string()
+      .trim()
+      .regex(/^\+?[\d\s-]{6,20}$/, "Enter a phone number"),
+    // The movement whose nominal roll is billeted here, if one was imported
+    movementId: z.preprocess((value) => (value === "" ? undefined : value), z.string().optional()),
+  })
+  .refine((booking) => booking.checkOut > booking.checkIn, {
+    message: "Check-out must be after check-in",
+    path: ["checkOut"],
+  })
+  .refine((booking) => countNights(booking) <= MAX_STAY_NIGHTS, {
+    message: `Stays are limited to ${MAX_STAY_NIGHTS} nights`,
+    path: ["checkOut"],
+  })
+
+export type BookingInput = z.input<typeof bookingInputSchema>
+
+export type BookingDetails = z.output<typeof bookingInputSchema>
+
+export type Booking = BookingDetails & {
+  id: string
+  status: BookingStatus
+  createdAt: string
+  // Army Number of the officer who made the booking
+  createdBy: string
+  updatedAt: string
+}
+
+export const toDateKey = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((part) => String(part).padStart(2, "0")).join("-")
+
+export const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// Rounded, as a night across a daylight saving change is an hour short or long
+const countNights = ({ checkIn, checkOut }: { checkIn: string; checkOut: string }) =>
+  Math.round((fromDateKey(checkOut).getTime() - fromDateKey(checkIn).getTime()) / MS_PER_DAY)
+
+// Two stays clash when one starts before the other ends
+export const bookingsOverlap = (a: Pick<Booking, "checkIn" | "checkOut">, b: Pick<Booking, "checkIn" | "checkOut">) =>
+  a.checkIn < b.checkOut && b.checkIn < a.checkOut
+
+export const formatStay = (booking: Pick<Booking, "checkIn" | "checkOut">) => {
+  const format = (key: string) =>
+    fromDateKey(key).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" })
+  return `${format(booking.checkIn)} – ${format(booking.checkOut)}`
+}
+
+// Every night of the stay, as date keys
+export const stayNights = ({ checkIn, checkOut }: Pick<Booking, "checkIn" | "checkOut">) => {
+  const nights: string[] = []
+  for (let night = fromDateKey(checkIn); toDateKey(night) < checkOut; night.setDate(night.getDate() + 1)) {
+    nights.push(toDateKey(night))
+  }
+  return nights
+}
+
+// Personnel held by active bookings on each night
+export const occupancyByNight = (bookings: Booking[]) => {
+  const occupancy: Record<string, number> = {}
+  bookings.filter(isActiveBooking).forEach((booking) => {
+    stayNights(booking).forEach((night) => (occupancy[night] = (occupancy[night] ?? 0) + booking.personnel))
+  })
+  return occupancy
+}
+
+// Nights of the new stay on which the place would hold more than `capacity`
+export const findOverbookedNights = (
+  bookings: Booking[],
+  stay: Pick<Booking, "checkIn" | "checkOut" | "personnel">,
+  capacity: number,
+) => {
+  const occupancy = occupancyByNight(bookings)
+  return stayNights(stay).filter((night) => (occupancy[night] ?? 0) + stay.personnel > capacity)
+}
+
+export const formatNights = (nights: string[]) =>
+  nights.map((night) => fromDateKey(night).toLocaleDateString(undefined, { day: "numeric", month: "short" })).join(", ")
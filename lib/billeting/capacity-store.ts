@@ -0,0 +1,26 @@
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+import type { CapacityRecord } from "@/lib/billeting/capacity"
+
+const CAPACITY_FILE = "capacity.json"
+
+type CapacityRecords = Record<string, CapacityRecord>
+
+export async function getCapacityRecords(locationIds: string[]): Promise<CapacityRecords> {
+  const records = await readJsonFile<CapacityRecords>(CAPACITY_FILE, {})
+  return Object.fromEntries(locationIds.filter((id) => records[id]).map((id) => [id, records[id]]))
+}
+
+export async function saveCapacityRecord(record: CapacityRecord): Promise<CapacityRecord> {
+  await updateJsonFile<CapacityRecords, void>(CAPACITY_FILE, {}, (records) => {
+    records[record.locationId] = record
+  })
+  return record
+}
+
+export async function deleteCapacityRecord(locationId: string): Promise<boolean> {
+  return updateJsonFile<CapacityRecords, boolean>(CAPACITY_FILE, {}, (records) => {
+    if (!records[locationId]) return false
+    delete records[locationId]
+    return true
+  })
+}
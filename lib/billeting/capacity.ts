@@ -0,0 +1,42 @@
+import { z } from "zod"
+
+// Shared by the capacity form and /api/capacity so both accept the same record.
+// OSM rarely says how many troops a place can hold, so billeting officers record it here.
+
+// Floor space per person bedding down on a hall floor with kit
+export const SQM_PER_PERSON = 4
+
+const optionalCount = (label: string) =>
+  z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    z.coerce
+      .number({ invalid_type_error: `${label} must be a number` })
+      .int(`${label} must be a whole number`)
+      .min(0, `${label} cannot be negative`)
+      .optional(),
+  )
+
+export const capacityInputSchema = z.object({
+  rooms: optionalCount("Rooms"),
+  beds: optionalCount("Beds"),
+  hallAreaSqm: optionalCount("Hall floor space"),
+  toilets: optionalCount("Toilets"),
+  water: z.boolean().default(false),
+  kitchen: z.boolean().default(false),
+  notes: z.string().trim().max(500, "Keep notes under 500 characters").optional(),
+})
+
+export type CapacityInput = z.input<typeof capacityInputSchema>
+
+export type CapacityRecord = z.output<typeof capacityInputSchema> & {
+  locationId: string
+  updatedAt: string
+  // Army Number of the officer who last edited the record
+  updatedBy: string
+}
+
+// Beds plus floor space; undefined when the record says nothing about either
+export const estimateTroopCapacity = (record: Pick<CapacityRecord, "beds" | "hallAreaSqm">): number | undefined => {
+  if (record.beds === undefined && record.hallAreaSqm === undefined) return undefined
+  return (record.beds ?? 0) + Math.floor((record.hallAreaSqm ?? 0) / SQM_PER_PERSON)
+}
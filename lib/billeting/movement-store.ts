@@ -0,0 +1,48 @@
+import { randomUUID } from "crypto"
+import type { Movement, Person } from "@/lib/billeting/nominal-roll"
+import { readJsonFile, updateJsonFile } from "@/lib/storage/json-file"
+
+const MOVEMENTS_FILE = "movements.json"
+
+export async function listMovements(): Promise<Movement[]> {
+  const movements = await readJsonFile<Movement[]>(MOVEMENTS_FILE, [])
+  return movements.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getMovement(id: string): Promise<Movement | null> {
+  const movements = await readJsonFile<Movement[]>(MOVEMENTS_FILE, [])
+  return movements.find((movement) => movement.id === id) ?? null
+}
+
+export async function createMovement(name: string, personnel: Person[], createdBy: string): Promise<Movement> {
+  const now = new Date().toISOString()
+  const movement: Movement = {
+    id: randomUUID(),
+    name,
+    personnel,
+    assignments: {},
+    createdAt: now,
+    createdBy,
+    updatedAt: now,
+  }
+  await updateJsonFile<Movement[], void>(MOVEMENTS_FILE, [], (movements) => {
+    movements.push(movement)
+  })
+  return movement
+}
+
+// Replaces the saved billet for every person; Army Numbers not on the roll are dropped
+export async function saveAssignments(id: string, assignments: Record<string, string>): Promise<Movement | null> {
+  return updateJsonFile<Movement[], Movement | null>(MOVEMENTS_FILE, [], (movements) => {
+    const movement = movements.find((existing) => existing.id === id)
+    if (!movement) return null
+
+    movement.assignments = Object.fromEntries(
+      movement.personnel
+        .filter((person) => assignments[person.armyNumber])
+        .map((person) => [person.armyNumber, assignments[person.armyNumber]]),
+    )
+    movement.updatedAt = new Date().toISOString()
+    return movement
+  })
+}
@@ -0,0 +1,208 @@
+import { z } from "zod"
+import {
+  emptyStrength,
+  GENDERS,
+  RANK_GROUPS,
+  type AllocationPlan,
+  type Gender,
+  type RankGroup,
+  type Strength,
+} from "@/lib/billeting/allocation"
+
+// Shared by the roster import and /api/movements. A movement is one unit's move with its nominal roll,
+// imported as plain CSV with a header row: Army Number, Rank, Name, Sub-unit, Gender.
+
+// Officers and JCOs carry a letter prefix (IC-56789K, JC123456L); other ranks usually have digits only
+const PERSONNEL_NUMBER_PATTERN = /^[A-Z]{0,3}\d{4,9}[A-Z]$/
+
+export const MAX_ROLL_SIZE = 2000
+
+const GENDER_ALIASES: Record<string, Gender> = { m: "male", male: "male", f: "female", female: "female" }
+
+export const personSchema = z.object({
+  armyNumber: z
+    .string()
+    .trim()
+    .min(1, "Army Number is required")
+    .transform((value) => value.toUpperCase().replace(/[\s-]/g, ""))
+    .refine((value) => PERSONNEL_NUMBER_PATTERN.test(value), { message: "Army Number is not a service number" }),
+  rank: z.string().trim().min(1, "Rank is required").max(30),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  subUnit: z.string().trim().max(50).default(""),
+  gender: z.preprocess(
+    (value) => (typeof value === "string" ? GENDER_ALIASES[value.trim().toLowerCase()] : value),
+    z.enum(GENDERS, { errorMap: () => ({ message: "Gender must be M or F" }) }),
+  ),
+})
+
+export type Person = z.output<typeof personSchema>
+
+export const movementInputSchema = z.object({
+  name: z.string().trim().min(1, "Movement name is required").max(100),
+  csv: z.string().trim().min(1, "Choose or paste a nominal roll").max(500_000, "The nominal roll is too large"),
+})
+
+export type MovementInput = z.input<typeof movementInputSchema>
+
+export interface Movement {
+  id: string
+  name: string
+  personnel: Person[]
+  // Army Number -> billet location id, as saved from the allocation planner
+  assignments: Record<string, string>
+  createdAt: string
+  // Army Number of the officer who imported the roll
+  createdBy: string
+  updatedAt: string
+}
+
+export const assignmentsSchema = z.record(z.string(), z.string().min(1))
+
+export interface RollError {
+  // 1-based, counting the header
+  line: number
+  message: string
+}
+
+// Header spellings seen on unit rolls, after lower-casing and dropping everything but letters
+const COLUMN_ALIASES: Record<keyof Person, string[]> = {
+  armyNumber: ["armynumber", "armyno", "number", "no", "servicenumber", "serviceno", "personalnumber"],
+  rank: ["rank"],
+  name: ["name", "fullname"],
+  subUnit: ["subunit", "coy", "company", "sqn", "squadron", "bty", "battery"],
+  gender: ["gender", "sex"],
+}
+
+// RFC 4180: commas and newlines inside double quotes, "" for a literal quote
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      rows.push([...row, field])
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  rows.push([...row, field])
+  return rows
+}
+
+export const parseNominalRoll = (csv: string): { personnel: Person[]; errors: RollError[] } => {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, ""))
+  const header = rows[0].map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ""))
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([key, aliases]) => [key, header.findIndex((cell) => aliases.includes(cell))]),
+  ) as Record<keyof Person, number>
+
+  // Sub-unit may be left out for a roll that isn't broken down
+  if ((["armyNumber", "rank", "name", "gender"] as const).some((key) => columns[key] === -1)) {
+    return {
+      personnel: [],
+      errors: [{ line: 1, message: "Header row needs Army Number, Rank, Name, Sub-unit and Gender columns" }],
+    }
+  }
+
+  const personnel: Person[] = []
+  const errors: RollError[] = []
+  const seen = new Set<string>()
+  rows.slice(1).forEach((cells, index) => {
+    const line = index + 2
+    if (cells.every((cell) => cell.trim() === "")) return
+
+    const parsed = personSchema.safeParse(
+      Object.fromEntries(Object.entries(columns).map(([key, column]) => [key, column === -1 ? "" : cells[column]])),
+    )
+    if (!parsed.success) {
+      errors.push({ line, message: parsed.error.issues.map((issue) => issue.message).join(", ") })
+    } else if (seen.has(parsed.data.armyNumber)) {
+      errors.push({ line, message: `${parsed.data.armyNumber} appears more than once` })
+    } else {
+      seen.add(parsed.data.armyNumber)
+      personnel.push(parsed.data)
+    }
+  })
+
+  if (personnel.length + errors.length === 0) errors.push({ line: 2, message: "The roll has no personnel" })
+  if (personnel.length > MAX_ROLL_SIZE) {
+    errors.push({ line: MAX_ROLL_SIZE + 2, message: `A roll can hold at most ${MAX_ROLL_SIZE} personnel` })
+  }
+  return { personnel, errors }
+}
+
+// Abbreviations as written on rolls, with spaces, dots and slashes removed
+const OFFICER_RANKS = ["LT", "CAPT", "MAJ", "LTCOL", "COL", "BRIG", "MAJGEN", "LTGEN", "GEN"]
+const JCO_RANKS = ["NBSUB", "SUB", "SUBMAJ", "NBRIS", "RIS", "RISMAJ", "SUBEDAR", "NAIBSUBEDAR", "SUBEDARMAJOR"]
+
+export const getRankGroup = (rank: string): RankGroup => {
+  const key = rank.toUpperCase().replace(/[^A-Z]/g, "")
+  if (OFFICER_RANKS.includes(key)) return "officers"
+  if (JCO_RANKS.includes(key)) return "jcos"
+  return "ors"
+}
+
+export const strengthOfRoll = (personnel: Person[]): Strength => {
+  const strength = emptyStrength()
+  personnel.forEach((person) => strength[person.gender][getRankGroup(person.rank)]++)
+  return strength
+}
+
+// Names the planner's head counts, keeping each sub-unit together where the counts allow
+export const assignPersonnel = (plan: AllocationPlan, personnel: Person[]) => {
+  const bySubUnit = [...personnel].sort((a, b) => a.subUnit.localeCompare(b.subUnit))
+  const byLocation: Record<string, Person[]> = {}
+  const taken = new Set<Person>()
+
+  plan.billets.forEach((billet) => {
+    byLocation[billet.locationId] = RANK_GROUPS.flatMap((group) =>
+      bySubUnit
+        .filter(
+          (person) => !taken.has(person) && person.gender === billet.gender && getRankGroup(person.rank) === group,
+        )
+        .slice(0, billet.counts[group]),
+    )
+    byLocation[billet.locationId].forEach((person) => taken.add(person))
+  })
+
+  return { byLocation, unassigned: bySubUnit.filter((person) => !taken.has(person)) }
+}
+
+export const personnelAt = (movement: Movement, locationId: string) =>
+  movement.personnel.filter((person) => movement.assignments[person.armyNumber] === locationId)
+
+// Spreadsheets run a cell starting with one of these as a formula; a leading ' makes it plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const csvField = (value: string) => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toNominalRollCsv = (personnel: Person[]) =>
+  [
+    ["Army Number", "Rank", "Name", "Sub-unit", "Gender"],
+    ...personnel.map((person) => [person.armyNumber, person.rank, person.name, person.subUnit, person.gender]),
+  ]
+    .map((row) => row.map(csvField).join(","))
+    .join("\n")
@@ -0,0 +1,145 @@
+// On-device cache for network lookups (geocoding, Overpass, OSRM) in IndexedDB.
+// Fresh entries are served without touching the network; when a lookup fails (e.g. offline)
+// an expired entry is still better than nothing and is returned instead of the error.
+
+const DB_NAME = "raturi-cache"
+const DB_VERSION = 1
+const STORE = "responses"
+// Rough cap across all namespaces, measured as serialized JSON length
+const MAX_TOTAL_BYTES = 10 * 1024 * 1024
+
+interface CacheEntry<T = unknown> {
+  key: string
+  namespace: string
+  value: T
+  storedAt: number
+  expiresAt: number
+  lastAccessedAt: number
+  size: number
+}
+
+export interface CacheOptions<T> {
+  namespace: string
+  key: string
+  ttlMs: number
+  maxEntries: number
+  // Skip storing some results, e.g. empty search results
+  shouldCache?: (value: T) => boolean
+}
+
+export interface CachedValue<T> {
+  value: T
+  fromCache: boolean
+}
+
+export const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, " ")
+
+// 3 decimals ≈ 110 m, so tapping the same area twice hits the cache
+export const roundCoordinate = (value: number, decimals = 3) => value.toFixed(decimals)
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null)
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "key" })
+        store.createIndex("namespace", "namespace")
+      }
+      request.onsuccess = () => resolve(request.result)
+      // Private browsing and locked-down profiles may refuse IndexedDB; carry on uncached
+      request.onerror = () => {
+        console.error("Response cache unavailable:", request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const readEntry = async <T>(db: IDBDatabase, key: string): Promise<CacheEntry<T> | null> => {
+  const entry = await promisify(db.transaction(STORE).objectStore(STORE).get(key))
+  return (entry as CacheEntry<T> | undefined) ?? null
+}
+
+const writeEntry = (db: IDBDatabase, entry: CacheEntry) =>
+  promisify(db.transaction(STORE, "readwrite").objectStore(STORE).put(entry))
+
+// Least recently used entries go first, per namespace and then across the whole cache
+const evict = async (db: IDBDatabase, namespace: string, maxEntries: number) => {
+  const store = db.transaction(STORE, "readwrite").objectStore(STORE)
+  const entries = ((await promisify(store.getAll())) as CacheEntry[]).sort(
+    (a, b) => a.lastAccessedAt - b.lastAccessedAt,
+  )
+
+  const doomed = new Set<string>()
+  const inNamespace = entries.filter((entry) => entry.namespace === namespace)
+  inNamespace.slice(0, Math.max(0, inNamespace.length - maxEntries)).forEach((entry) => doomed.add(entry.key))
+
+  let totalBytes = entries.reduce((sum, entry) => sum + (doomed.has(entry.key) ? 0 : entry.size), 0)
+  for (const entry of entries) {
+    if (totalBytes <= MAX_TOTAL_BYTES) break
+    if (doomed.has(entry.key)) continue
+    doomed.add(entry.key)
+    totalBytes -= entry.size
+  }
+
+  const writable = db.transaction(STORE, "readwrite").objectStore(STORE)
+  await Promise.all([...doomed].map((key) => promisify(writable.delete(key))))
+}
+
+const isAbortError = (error: unknown) => (error as Error)?.name === "AbortError"
+
+export async function withCache<T>(options: CacheOptions<T>, load: () => Promise<T>): Promise<CachedValue<T>> {
+  const db = await openDb()
+  const key = `${options.namespace}:${options.key}`
+  const now = Date.now()
+
+  let entry: CacheEntry<T> | null = null
+  if (db) {
+    try {
+      entry = await readEntry<T>(db, key)
+    } catch (error) {
+      console.error("Response cache read error:", error)
+    }
+  }
+
+  if (db && entry && entry.expiresAt > now) {
+    writeEntry(db, { ...entry, lastAccessedAt: now }).catch((error) => console.error("Response cache error:", error))
+    return { value: entry.value, fromCache: true }
+  }
+
+  try {
+    const value = await load()
+    if (db && (options.shouldCache?.(value) ?? true)) {
+      const serialized = JSON.stringify(value)
+      const fresh: CacheEntry<T> = {
+        key,
+        namespace: options.namespace,
+        value,
+        storedAt: now,
+        expiresAt: now + options.ttlMs,
+        lastAccessedAt: now,
+        size: serialized.length,
+      }
+      writeEntry(db, fresh)
+        .then(() => evict(db, options.namespace, options.maxEntries))
+        .catch((error) => console.error("Response cache write error:", error))
+    }
+    return { value, fromCache: false }
+  } catch (error) {
+    if (entry && !isAbortError(error)) {
+      console.error(`Serving stale ${options.namespace} response after error:`, error)
+      return { value: entry.value, fromCache: true }
+    }
+    throw error
+  }
+}
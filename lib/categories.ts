@@ -0,0 +1,170 @@
+import {
+  BedDouble,
+  Building2,
+  Disc,
+  Fuel,
+  Hospital,
+  Hotel,
+  School,
+  Scale,
+  SquareParking,
+  TrainFront,
+  Truck,
+  Users,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react"
+import type { Role } from "@/lib/auth/roles"
+
+// Adding a new kind of place is a config change: declare its type here, then list it under a category below
+
+interface PlaceTypeDefinition {
+  label: string
+  icon: LucideIcon
+  // Canvas pin colour
+  pinColor: string
+  // Overpass tag filters, e.g. `["amenity"="fuel"]`; an element matching any of them has this type
+  filters: string[]
+}
+
+export const PLACE_TYPES = {
+  hotel: { label: "Hotel", icon: Hotel, pinColor: "#f59e0b", filters: ['["tourism"="hotel"]'] },
+  dharamshala: {
+    label: "Dharamshala",
+    icon: BedDouble,
+    pinColor: "#f97316",
+    filters: [
+      '["tourism"="guest_house"]["guest_house"="dharamshala"]',
+      '["amenity"="dharamshala"]',
+      '["building"="dharamshala"]',
+    ],
+  },
+  community_hall: {
+    label: "Community Hall",
+    icon: Building2,
+    pinColor: "#84cc16",
+    filters: ['["amenity"="community_centre"]', '["amenity"="events_venue"]'],
+  },
+  school: { label: "School", icon: School, pinColor: "#8b5cf6", filters: ['["amenity"="school"]'] },
+  hospital: {
+    label: "Hospital",
+    icon: Hospital,
+    pinColor: "#dc2626",
+    filters: ['["amenity"="hospital"]', '["healthcare"="hospital"]'],
+  },
+  railway_station: {
+    label: "Railway Station",
+    icon: TrainFront,
+    pinColor: "#0ea5e9",
+    filters: ['["railway"="station"]', '["railway"="halt"]'],
+  },
+  fuel: { label: "Fuel Station", icon: Fuel, pinColor: "#ef4444", filters: ['["amenity"="fuel"]'] },
+  workshop: {
+    label: "Vehicle Workshop",
+    icon: Wrench,
+    pinColor: "#3b82f6",
+    filters: ['["shop"="car_repair"]', '["shop"="truck_repair"]', '["craft"="mechanic"]'],
+  },
+  tyres: { label: "Tyre Shop", icon: Disc, pinColor: "#14b8a6", filters: ['["shop"="tyres"]'] },
+  truck_parking: {
+    label: "Truck Parking",
+    icon: SquareParking,
+    pinColor: "#6366f1",
+    filters: ['["amenity"="parking"]["hgv"~"^(yes|designated)$"]'],
+  },
+  weighbridge: { label: "Weighbridge", icon: Scale, pinColor: "#ec4899", filters: ['["amenity"="weighbridge"]'] },
+} satisfies Record<string, PlaceTypeDefinition>
+
+export type PlaceType = keyof typeof PLACE_TYPES
+
+interface CategoryDefinition {
+  // Button text on the category screen
+  label: string
+  // Map header, shown as "<title> Near You"
+  title: string
+  icon: LucideIcon
+  buttonClassName: string
+  placeTypes: PlaceType[]
+  // Roles that see this category's button
+  roles: Role[]
+  // Shown around the user when Overpass can't be reached
+  fallbackPlaces: Array<{ name: string; type: PlaceType }>
+}
+
+export const CATEGORIES = {
+  hotels: {
+    label: "Hotels For Troops",
+    title: "Hotels",
+    icon: Users,
+    buttonClassName: "bg-amber-600 hover:bg-amber-700",
+    placeTypes: ["hotel"],
+    roles: ["troop", "billeting_officer", "admin"],
+    fallbackPlaces: [
+      { name: "Grand Hotel", type: "hotel" },
+      { name: "Royal Inn", type: "hotel" },
+      { name: "City Lodge", type: "hotel" },
+      { name: "Palace Hotel", type: "hotel" },
+      { name: "Crown Plaza", type: "hotel" },
+    ],
+  },
+  billets: {
+    label: "Dharamshalas & Halls",
+    title: "Dharamshalas & Halls",
+    icon: Building2,
+    buttonClassName: "bg-orange-600 hover:bg-orange-700",
+    placeTypes: ["dharamshala", "community_hall", "school"],
+    roles: ["billeting_officer", "admin"],
+    fallbackPlaces: [
+      { name: "Shri Ram Dharamshala", type: "dharamshala" },
+      { name: "Jain Dharamshala", type: "dharamshala" },
+      { name: "Community Centre", type: "community_hall" },
+      { name: "Government Senior Secondary School", type: "school" },
+    ],
+  },
+  mt: {
+    label: "MT Services",
+    title: "MT Services",
+    icon: Truck,
+    buttonClassName: "bg-purple-600 hover:bg-purple-700",
+    placeTypes: ["fuel", "workshop", "tyres", "truck_parking", "weighbridge"],
+    roles: ["mt_officer", "admin"],
+    fallbackPlaces: [
+      { name: "Indian Oil Fuel Station", type: "fuel" },
+      { name: "Highway Motors Workshop", type: "workshop" },
+      { name: "City Tyre House", type: "tyres" },
+      { name: "Transport Nagar Truck Parking", type: "truck_parking" },
+      { name: "Electronic Weighbridge", type: "weighbridge" },
+    ],
+  },
+  medical: {
+    label: "Hospitals",
+    title: "Hospitals",
+    icon: Hospital,
+    buttonClassName: "bg-red-700 hover:bg-red-800",
+    placeTypes: ["hospital"],
+    roles: ["troop", "billeting_officer", "mt_officer", "admin"],
+    fallbackPlaces: [
+      { name: "District Hospital", type: "hospital" },
+      { name: "Civil Hospital", type: "hospital" },
+    ],
+  },
+  rail: {
+    label: "Railway Stations",
+    title: "Railway Stations",
+    icon: TrainFront,
+    buttonClassName: "bg-sky-600 hover:bg-sky-700",
+    placeTypes: ["railway_station"],
+    roles: ["billeting_officer", "mt_officer", "admin"],
+    fallbackPlaces: [{ name: "Junction Railway Station", type: "railway_station" }],
+  },
+} satisfies Record<string, CategoryDefinition>
+
+export type PlaceCategory = keyof typeof CATEGORIES
+
+export const getCategory = (category: PlaceCategory): CategoryDefinition => CATEGORIES[category]
+
+// Categories in registry order, limited to the ones the role may see
+export const getVisibleCategories = (role: Role | undefined): PlaceCategory[] =>
+  (Object.keys(CATEGORIES) as PlaceCategory[]).filter(
+    (category) => !!role && getCategory(category).roles.includes(role),
+  )
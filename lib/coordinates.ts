@@ -0,0 +1,302 @@
+// Parsing and formatting of grid references: decimal degrees, degrees-minutes-seconds,
+// UTM and MGRS on the WGS84 ellipsoid. Everything runs locally - no geocoder involved.
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export type CoordinateFormat = "decimal" | "dms" | "utm" | "mgrs"
+
+export interface ParsedCoordinates extends LatLng {
+  format: CoordinateFormat
+}
+
+export interface UtmCoordinates {
+  zone: number
+  band: string
+  easting: number
+  northing: number
+}
+
+const WGS84_A = 6378137
+const WGS84_F = 1 / 298.257223563
+const E2 = WGS84_F * (2 - WGS84_F)
+const EP2 = E2 / (1 - E2)
+const K0 = 0.9996
+const FALSE_EASTING = 500000
+const FALSE_NORTHING_SOUTH = 10000000
+
+const BAND_LETTERS = "CDEFGHJKLMNPQRSTUVWX"
+const MGRS_COLUMN_SETS = ["ABCDEFGH", "JKLMNPQR", "STUVWXYZ"]
+const MGRS_ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV"
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+const isValidLatLng = ({ lat, lng }: LatLng) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+
+// --- UTM ---------------------------------------------------------------------------------------
+
+const getZone = (lat: number, lng: number) => {
+  // Norway and Svalbard exceptions to the regular 6° zones
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32
+  if (lat >= 72 && lat < 84) {
+    if (lng >= 0 && lng < 9) return 31
+    if (lng >= 9 && lng < 21) return 33
+    if (lng >= 21 && lng < 33) return 35
+    if (lng >= 33 && lng < 42) return 37
+  }
+  return Math.min(Math.floor((lng + 180) / 6) + 1, 60)
+}
+
+const getBand = (lat: number) => BAND_LETTERS[Math.min(Math.floor((lat + 80) / 8), BAND_LETTERS.length - 1)]
+
+const centralMeridian = (zone: number) => (zone - 1) * 6 - 180 + 3
+
+const meridionalArc = (phi: number) =>
+  WGS84_A *
+  ((1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256) * phi -
+    ((3 * E2) / 8 + (3 * E2 ** 2) / 32 + (45 * E2 ** 3) / 1024) * Math.sin(2 * phi) +
+    ((15 * E2 ** 2) / 256 + (45 * E2 ** 3) / 1024) * Math.sin(4 * phi) -
+    ((35 * E2 ** 3) / 3072) * Math.sin(6 * phi))
+
+// Projects into a given zone (which may differ from the natural one, e.g. for MGRS band lookups)
+const projectToZone = (lat: number, lng: number, zone: number) => {
+  const phi = toRadians(lat)
+  const n = WGS84_A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2)
+  const t = Math.tan(phi) ** 2
+  const c = EP2 * Math.cos(phi) ** 2
+  const a = Math.cos(phi) * toRadians(lng - centralMeridian(zone))
+
+  const easting =
+    K0 * n * (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t ** 2 + 72 * c - 58 * EP2) * a ** 5) / 120) +
+    FALSE_EASTING
+  let northing =
+    K0 *
+    (meridionalArc(phi) +
+      n *
+        Math.tan(phi) *
+        (a ** 2 / 2 +
+          ((5 - t + 9 * c + 4 * c ** 2) * a ** 4) / 24 +
+          ((61 - 58 * t + t ** 2 + 600 * c - 330 * EP2) * a ** 6) / 720))
+  if (lat < 0) northing += FALSE_NORTHING_SOUTH
+
+  return { easting, northing }
+}
+
+export function toUtm({ lat, lng }: LatLng): UtmCoordinates {
+  const zone = getZone(lat, lng)
+  return { zone, band: getBand(lat), ...projectToZone(lat, lng, zone) }
+}
+
+export function fromUtm({ zone, band, easting, northing }: UtmCoordinates): LatLng {
+  const southern = band.toUpperCase() < "N"
+  const m = (southern ? northing - FALSE_NORTHING_SOUTH : northing) / K0
+  const mu = m / (WGS84_A * (1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256))
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2))
+
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu)
+
+  const n1 = WGS84_A / Math.sqrt(1 - E2 * Math.sin(phi1) ** 2)
+  const t1 = Math.tan(phi1) ** 2
+  const c1 = EP2 * Math.cos(phi1) ** 2
+  const r1 = (WGS84_A * (1 - E2)) / (1 - E2 * Math.sin(phi1) ** 2) ** 1.5
+  const d = (easting - FALSE_EASTING) / (n1 * K0)
+
+  const lat =
+    phi1 -
+    ((n1 * Math.tan(phi1)) / r1) *
+      (d ** 2 / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * EP2 - 3 * c1 ** 2) * d ** 6) / 720)
+  const lng =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * EP2 + 24 * t1 ** 2) * d ** 5) / 120) /
+    Math.cos(phi1)
+
+  return { lat: toDegrees(lat), lng: centralMeridian(zone) + toDegrees(lng) }
+}
+
+// --- MGRS --------------------------------------------------------------------------------------
+
+export function toMgrs(position: LatLng, precision = 5): string {
+  const { zone, band, easting, northing } = toUtm(position)
+  const column = MGRS_COLUMN_SETS[(zone - 1) % 3][Math.floor(easting / 100000) - 1]
+  const rowOffset = zone % 2 === 0 ? 5 : 0
+  const row = MGRS_ROW_LETTERS[(Math.floor(northing / 100000) + rowOffset) % MGRS_ROW_LETTERS.length]
+
+  const digits = (value: number) =>
+    Math.floor((value % 100000) / 10 ** (5 - precision))
+      .toString()
+      .padStart(precision, "0")
+
+  return precision > 0
+    ? `${zone}${band} ${column}${row} ${digits(easting)} ${digits(northing)}`
+    : `${zone}${band} ${column}${row}`
+}
+
+// Lowest northing any point of a latitude band can have in its zone
+const bandMinNorthing = (zone: number, band: string) => {
+  const bandIndex = BAND_LETTERS.indexOf(band)
+  const lat = -80 + bandIndex * 8
+  const meridian = centralMeridian(zone)
+  return Math.min(
+    projectToZone(lat, meridian, zone).northing,
+    projectToZone(lat, meridian - 3, zone).northing,
+    projectToZone(lat, meridian + 3, zone).northing,
+  )
+}
+
+export function fromMgrs(reference: string): LatLng | null {
+  const match = reference
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d{0,10})$/)
+  if (!match) return null
+
+  const [, zoneText, band, columnLetter, rowLetter, digits] = match
+  const zone = Number.parseInt(zoneText, 10)
+  if (zone < 1 || zone > 60 || digits.length % 2 !== 0) return null
+
+  const column = MGRS_COLUMN_SETS[(zone - 1) % 3].indexOf(columnLetter)
+  const rowIndex = MGRS_ROW_LETTERS.indexOf(rowLetter)
+  if (column === -1 || rowIndex === -1) return null
+
+  const precision = digits.length / 2
+  const scale = 10 ** (5 - precision)
+  // Reference the centre of the grid square rather than its south-west corner
+  const half = precision < 5 ? scale / 2 : 0
+  const easting = (column + 1) * 100000 + Number(digits.slice(0, precision) || 0) * scale + half
+
+  const rowOffset = zone % 2 === 0 ? 5 : 0
+  let northing =
+    ((rowIndex - rowOffset + MGRS_ROW_LETTERS.length) % MGRS_ROW_LETTERS.length) * 100000 +
+    Number(digits.slice(precision) || 0) * scale +
+    half
+  // Row letters repeat every 2000 km; pick the cycle that lands inside the latitude band
+  const minNorthing = bandMinNorthing(zone, band)
+  while (northing < minNorthing - 100000) northing += 2000000
+
+  return fromUtm({ zone, band, easting, northing })
+}
+
+// --- Parsing -----------------------------------------------------------------------------------
+
+const UTM_PATTERN =
+  /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d{1,7}(?:\.\d+)?)\s*(?:M?E)?\s*[,;\s]\s*(\d{1,8}(?:\.\d+)?)\s*(?:M?N)?$/i
+const LATLNG_CHARS = /^[\d\s.,;:°º'′"″+\-NSEW]+$/i
+
+// One latitude or longitude written as decimal degrees or as degrees/minutes/seconds
+const parseAngle = (text: string, axis: "lat" | "lng"): { value: number; dms: boolean } | null => {
+  const hemispheres = text.toUpperCase().match(/[NSEW]/g) ?? []
+  if (hemispheres.length > 1) return null
+  const hemisphere = hemispheres[0]
+  if (hemisphere && (axis === "lat" ? !"NS".includes(hemisphere) : !"EW".includes(hemisphere))) return null
+
+  const numbers = text.match(/-?\d+(?:\.\d+)?/g) ?? []
+  if (numbers.length < 1 || numbers.length > 3) return null
+
+  const [degrees, minutes = 0, seconds = 0] = numbers.map(Number)
+  if (minutes < 0 || minutes >= 60 || seconds < 0 || seconds >= 60) return null
+  if (numbers.length > 1 && !Number.isInteger(degrees)) return null
+
+  const negative = degrees < 0 || Object.is(degrees, -0) || hemisphere === "S" || hemisphere === "W"
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600
+  return { value: negative ? -magnitude : magnitude, dms: numbers.length > 1 }
+}
+
+const splitLatLng = (text: string): [string, string] | null => {
+  const separated = text.split(/[,;]/)
+  if (separated.length === 2) return [separated[0], separated[1]]
+  if (separated.length > 2) return null
+
+  // Hemisphere suffixes: 28°36'50"N 77°12'32"E
+  const suffixed = text.match(/^(.*?[NS])\s*(.+[EW])$/i)
+  if (suffixed) return [suffixed[1], suffixed[2]]
+  // Hemisphere prefixes: N28.61 E77.20
+  const prefixed = text.match(/^([NS].*?)\s*([EW].*)$/i)
+  if (prefixed) return [prefixed[1], prefixed[2]]
+
+  // Bare numbers: split evenly (2 → D D, 4 → D M D M, 6 → D M S D M S)
+  const tokens = text
+    .trim()
+    .split(/[\s°º'′"″:]+/)
+    .filter(Boolean)
+  if (tokens.length % 2 !== 0 || tokens.length > 6) return null
+  const half = tokens.length / 2
+  return [tokens.slice(0, half).join(" "), tokens.slice(half).join(" ")]
+}
+
+export function parseCoordinates(input: string): ParsedCoordinates | null {
+  const text = input.trim()
+  if (!text) return null
+
+  const mgrs = fromMgrs(text)
+  if (mgrs && isValidLatLng(mgrs)) return { ...mgrs, format: "mgrs" }
+
+  const utm = text.match(UTM_PATTERN)
+  if (utm) {
+    const position = fromUtm({
+      zone: Number.parseInt(utm[1], 10),
+      band: utm[2].toUpperCase(),
+      easting: Number.parseFloat(utm[3]),
+      northing: Number.parseFloat(utm[4]),
+    })
+    return isValidLatLng(position) ? { ...position, format: "utm" } : null
+  }
+
+  if (!LATLNG_CHARS.test(text) || !/\d/.test(text)) return null
+  const parts = splitLatLng(text)
+  if (!parts) return null
+
+  // Allow "77.2E 28.6N" by swapping when the hemispheres say longitude came first
+  const [first, second] = /[EW]/i.test(parts[0]) && /[NS]/i.test(parts[1]) ? [parts[1], parts[0]] : parts
+  const lat = parseAngle(first, "lat")
+  const lng = parseAngle(second, "lng")
+  if (!lat || !lng) return null
+
+  const position = { lat: lat.value, lng: lng.value }
+  if (!isValidLatLng(position)) return null
+  return { ...position, format: lat.dms || lng.dms ? "dms" : "decimal" }
+}
+
+// --- Formatting --------------------------------------------------------------------------------
+
+export const formatDecimal = ({ lat, lng }: LatLng) =>
+  `${Math.abs(lat).toFixed(5)}°${lat < 0 ? "S" : "N"}, ${Math.abs(lng).toFixed(5)}°${lng < 0 ? "W" : "E"}`
+
+const formatDmsAngle = (value: number, positive: string, negative: string) => {
+  let degrees = Math.floor(Math.abs(value))
+  let minutes = Math.floor((Math.abs(value) - degrees) * 60)
+  let seconds = Number(((Math.abs(value) - degrees - minutes / 60) * 3600).toFixed(1))
+  // Carry rounding overflow (59.96" → 60.0")
+  if (seconds >= 60) {
+    seconds = 0
+    minutes += 1
+  }
+  if (minutes >= 60) {
+    minutes = 0
+    degrees += 1
+  }
+  return `${degrees}°${minutes.toString().padStart(2, "0")}'${seconds.toFixed(1).padStart(4, "0")}"${value < 0 ? negative : positive}`
+}
+
+export const formatDms = ({ lat, lng }: LatLng) => `${formatDmsAngle(lat, "N", "S")} ${formatDmsAngle(lng, "E", "W")}`
+
+export const formatUtm = (position: LatLng) => {
+  const { zone, band, easting, northing } = toUtm(position)
+  return `${zone}${band} ${Math.round(easting)}E ${Math.round(northing)}N`
+}
+
+export const formatMgrs = (position: LatLng) => toMgrs(position)
+
+export const formatCoordinates = (position: LatLng, format: CoordinateFormat) =>
+  ({ decimal: formatDecimal, dms: formatDms, utm: formatUtm, mgrs: formatMgrs })[format](position)
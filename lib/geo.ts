@@ -0,0 +1,97 @@
+import type { LatLng } from "@/lib/coordinates"
+
+// Great-circle distance in km (haversine)
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const R = 6371 // Earth's radius in km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180
+  const dLon = ((lon2 - lon1) * Math.PI) / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return R * c
+}
+
+// Web Mercator, as used by XYZ map tiles: at zoom z the world is a square TILE_SIZE × 2^z pixels across,
+// with (0, 0) at the top-left (180°W, ~85°N)
+export const TILE_SIZE = 256
+
+// Where the Mercator square ends; the poles themselves are at infinity
+const MAX_LATITUDE = 85.0511287798
+
+const EQUATOR_KM = 40075.016686
+
+export interface Point {
+  x: number
+  y: number
+}
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom
+
+export const project = ({ lat, lng }: LatLng, zoom: number): Point => {
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180)
+  return {
+    x: ((lng + 180) / 360) * worldSize(zoom),
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * worldSize(zoom),
+  }
+}
+
+export const unproject = ({ x, y }: Point, zoom: number): LatLng => ({
+  lat: (Math.atan(Math.sinh(Math.PI - (2 * Math.PI * y) / worldSize(zoom))) * 180) / Math.PI,
+  lng: (x / worldSize(zoom)) * 360 - 180,
+})
+
+// Fractional zoom at which a circle of `radiusKm` around `center` just fits a width × height view
+export const zoomForRadius = (center: LatLng, radiusKm: number, width: number, height: number) => {
+  const kmAcross = EQUATOR_KM * Math.cos((center.lat * Math.PI) / 180)
+  return Math.log2((kmAcross * Math.min(width, height)) / (2 * radiusKm * TILE_SIZE))
+}
+
+// The inverse: radius of the largest circle around `center` that fits the view at `zoom`
+export const radiusForZoom = (center: LatLng, zoom: number, width: number, height: number) =>
+  (EQUATOR_KM * Math.cos((center.lat * Math.PI) / 180) * Math.min(width, height)) / (2 * TILE_SIZE * 2 ** zoom)
+
+const KM_PER_DEGREE_LAT = 111.32
+
+export interface Bounds {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+// Box around a circle of `radiusKm`, e.g. the part of the map in view
+export const boundsAround = (center: LatLng, radiusKm: number): Bounds => {
+  const latSpan = radiusKm / KM_PER_DEGREE_LAT
+  const lngSpan = radiusKm / (KM_PER_DEGREE_LAT * Math.cos((center.lat * Math.PI) / 180))
+  return {
+    south: center.lat - latSpan,
+    west: center.lng - lngSpan,
+    north: center.lat + latSpan,
+    east: center.lng + lngSpan,
+  }
+}
+
+// Smallest box holding every point. Folded rather than spread into Math.min, as a long route has more
+// points than a call can take arguments.
+export const boundsOf = (points: LatLng[]): Bounds =>
+  points.reduce(
+    (bounds, { lat, lng }) => ({
+      south: Math.min(bounds.south, lat),
+      west: Math.min(bounds.west, lng),
+      north: Math.max(bounds.north, lat),
+      east: Math.max(bounds.east, lng),
+    }),
+    { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity },
+  )
+
+// Centre and fractional zoom at which `bounds` just fits a width × height view
+export const fitBounds = (bounds: Bounds, width: number, height: number): { center: LatLng; zoom: number } => {
+  const northWest = project({ lat: bounds.north, lng: bounds.west }, 0)
+  const southEast = project({ lat: bounds.south, lng: bounds.east }, 0)
+  return {
+    center: unproject({ x: (northWest.x + southEast.x) / 2, y: (northWest.y + southEast.y) / 2 }, 0),
+    // A single point gives an infinite zoom, which the map clamps to its deepest level
+    zoom: Math.log2(Math.min(width / (southEast.x - northWest.x), height / (southEast.y - northWest.y))),
+  }
+}
@@ -0,0 +1,190 @@
+import { calculateDistance } from "@/lib/geo"
+import type { GeocodeOptions, GeocodeResult, GeocodingProvider, ReverseGeocodeResult } from "@/lib/geocoding/types"
+
+// Reverse lookups only name a gazetteer place when it is this close
+const REVERSE_MAX_DISTANCE_KM = 15
+
+// Offline geocoder backed by a static file of known places (cantonments, railway stations,
+// towns). Accepts either CSV with a header row
+//   name,lat,lng,type,district,state,aliases
+// (aliases separated by "|") or a GeoJSON FeatureCollection of Points with the same properties.
+
+export interface GazetteerEntry {
+  name: string
+  lat: number
+  lng: number
+  type?: string
+  district?: string
+  state?: string
+  aliases: string[]
+}
+
+export interface GazetteerProvider extends GeocodingProvider {
+  getEntries(): Promise<GazetteerEntry[]>
+}
+
+// Minimal RFC 4180 line splitter: handles quoted fields and doubled quotes
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      fields.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  fields.push(current.trim())
+  return fields
+}
+
+const toEntry = (record: Record<string, unknown>, lat: number, lng: number): GazetteerEntry | null => {
+  const name = typeof record.name === "string" ? record.name.trim() : ""
+  if (!name || !Number.isFinite(lat) || !Number.isFinite(lng)) return null
+
+  const text = (key: string) => (typeof record[key] === "string" && record[key] ? (record[key] as string) : undefined)
+  const aliases = record.aliases
+  return {
+    name,
+    lat,
+    lng,
+    type: text("type"),
+    district: text("district"),
+    state: text("state"),
+    aliases: Array.isArray(aliases)
+      ? aliases.map(String)
+      : (text("aliases") ?? "")
+          .split("|")
+          .map((alias) => alias.trim())
+          .filter(Boolean),
+  }
+}
+
+export function parseGazetteerCsv(text: string): GazetteerEntry[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith("#"))
+  if (lines.length === 0) return []
+
+  const header = splitCsvLine(lines[0]).map((column) => column.toLowerCase())
+  return lines.slice(1).flatMap((line) => {
+    const fields = splitCsvLine(line)
+    const record = Object.fromEntries(header.map((column, index) => [column, fields[index] ?? ""]))
+    const entry = toEntry(record, Number.parseFloat(record.lat), Number.parseFloat(record.lng ?? record.lon))
+    return entry ? [entry] : []
+  })
+}
+
+// The parts of a GeoJSON feature read here, each still checked before use
+interface GeoJsonFeature {
+  geometry?: { type?: unknown; coordinates?: unknown } | null
+  properties?: Record<string, unknown> | null
+}
+
+export function parseGazetteerGeoJson(data: unknown): GazetteerEntry[] {
+  const collection = data as { type?: unknown; features?: unknown } | null
+  const features =
+    collection?.type === "FeatureCollection" && Array.isArray(collection.features)
+      ? (collection.features as Array<GeoJsonFeature | null>)
+      : []
+  return features.flatMap((feature) => {
+    const coordinates = feature?.geometry?.type === "Point" ? feature.geometry.coordinates : null
+    if (!Array.isArray(coordinates)) return []
+    const [lng, lat] = coordinates.map(Number)
+    const entry = toEntry(feature?.properties ?? {}, lat, lng)
+    return entry ? [entry] : []
+  })
+}
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+
+// Higher is better; 0 means no match
+const scoreEntry = (entry: GazetteerEntry, query: string) => {
+  let best = 0
+  for (const candidate of [entry.name, ...entry.aliases].map(normalize)) {
+    if (candidate === query) best = Math.max(best, 3)
+    else if (candidate.startsWith(query)) best = Math.max(best, 2)
+    else if (candidate.includes(query)) best = Math.max(best, 1)
+  }
+  return best
+}
+
+export function createGazetteerProvider(url: string): GazetteerProvider {
+  let entries: Promise<GazetteerEntry[]> | null = null
+
+  const load = async () => {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`Gazetteer ${url} responded with ${response.status}`)
+    const isGeoJson = /\.(geo)?json$/i.test(new URL(url, "http://localhost").pathname)
+    return isGeoJson ? parseGazetteerGeoJson(await response.json()) : parseGazetteerCsv(await response.text())
+  }
+
+  const getEntries = () => {
+    if (!entries) {
+      entries = load().catch((error) => {
+        // Allow a retry on the next search instead of caching the failure
+        entries = null
+        throw error
+      })
+    }
+    return entries
+  }
+
+  return {
+    name: "gazetteer",
+    getEntries,
+    async search(query: string, { limit = 5 }: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+      const normalized = normalize(query)
+      if (!normalized) return []
+
+      return (await getEntries())
+        .map((entry) => ({ entry, score: scoreEntry(entry, normalized) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+        .slice(0, limit)
+        .map(({ entry }) => ({
+          lat: entry.lat,
+          lng: entry.lng,
+          name: entry.name,
+          label: [entry.name, entry.district, entry.state].filter(Boolean).join(", "),
+          type: entry.type,
+          district: entry.district,
+          state: entry.state,
+          source: "gazetteer",
+        }))
+    },
+    // No street data offline, so the best we can say is which known place is nearest
+    async reverse(lat: number, lng: number): Promise<ReverseGeocodeResult | null> {
+      let nearest: { entry: GazetteerEntry; distance: number } | null = null
+      for (const entry of await getEntries()) {
+        const distance = calculateDistance(lat, lng, entry.lat, entry.lng)
+        if (!nearest || distance < nearest.distance) nearest = { entry, distance }
+      }
+      if (!nearest || nearest.distance > REVERSE_MAX_DISTANCE_KM) return null
+
+      return {
+        locality: nearest.entry.name,
+        district: nearest.entry.district,
+        state: nearest.entry.state,
+        source: "gazetteer",
+      }
+    },
+  }
+}
@@ -0,0 +1,87 @@
+import { createGazetteerProvider } from "@/lib/geocoding/gazetteer"
+import { createNominatimProvider } from "@/lib/geocoding/nominatim"
+import { createPhotonProvider } from "@/lib/geocoding/photon"
+import type {
+  GeocodeOptions,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeOptions,
+  ReverseGeocodeResult,
+} from "@/lib/geocoding/types"
+
+export type {
+  GeocodeOptions,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeOptions,
+  ReverseGeocodeResult,
+} from "@/lib/geocoding/types"
+
+// Configured at build time:
+//   NEXT_PUBLIC_GEOCODER      "nominatim" (default), "photon" or "gazetteer"
+//   NEXT_PUBLIC_GEOCODER_URL  base URL of a self-hosted Nominatim or Photon instance
+//   NEXT_PUBLIC_GAZETTEER_URL local place list (CSV or GeoJSON), default /gazetteer.csv
+// The gazetteer is always consulted last, so searches keep working on an air-gapped network.
+
+const DEFAULT_GAZETTEER_URL = "/gazetteer.csv"
+
+// Tries each provider in turn until one returns results
+export function createFallbackProvider(providers: GeocodingProvider[]): GeocodingProvider {
+  return {
+    name: providers.map((provider) => provider.name).join(" → "),
+    async search(query: string, options?: GeocodeOptions): Promise<GeocodeResult[]> {
+      let lastError: unknown = null
+      for (const provider of providers) {
+        try {
+          const results = await provider.search(query, options)
+          if (results.length > 0) return results
+        } catch (error) {
+          if (options?.signal?.aborted) throw error
+          console.error(`Geocoding via ${provider.name} failed:`, error)
+          lastError = error
+        }
+      }
+      if (lastError) throw lastError
+      return []
+    },
+    async reverse(lat: number, lng: number, options?: ReverseGeocodeOptions): Promise<ReverseGeocodeResult | null> {
+      let lastError: unknown = null
+      for (const provider of providers) {
+        try {
+          const result = await provider.reverse(lat, lng, options)
+          if (result) return result
+        } catch (error) {
+          if (options?.signal?.aborted) throw error
+          console.error(`Reverse geocoding via ${provider.name} failed:`, error)
+          lastError = error
+        }
+      }
+      if (lastError) throw lastError
+      return null
+    },
+  }
+}
+
+let geocodingProvider: GeocodingProvider | null = null
+
+export function getGeocodingProvider(): GeocodingProvider {
+  if (geocodingProvider) return geocodingProvider
+
+  const kind = process.env.NEXT_PUBLIC_GEOCODER || "nominatim"
+  const url = process.env.NEXT_PUBLIC_GEOCODER_URL
+  const gazetteer = createGazetteerProvider(process.env.NEXT_PUBLIC_GAZETTEER_URL || DEFAULT_GAZETTEER_URL)
+
+  const providers: GeocodingProvider[] = []
+  if (kind === "photon") {
+    if (!url) throw new Error("NEXT_PUBLIC_GEOCODER_URL must be set to use the Photon geocoder")
+    providers.push(createPhotonProvider(url))
+  } else if (kind === "nominatim") {
+    providers.push(createNominatimProvider(url))
+  } else if (kind !== "gazetteer") {
+    throw new Error(`Unknown geocoder "${kind}"`)
+  }
+  providers.push(gazetteer)
+
+  geocodingProvider = providers.length === 1 ? gazetteer : createFallbackProvider(providers)
+  return geocodingProvider
+}
@@ -0,0 +1,94 @@
+import type {
+  GeocodeOptions,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeOptions,
+  ReverseGeocodeResult,
+} from "@/lib/geocoding/types"
+
+export const PUBLIC_NOMINATIM_URL = "https://nominatim.openstreetmap.org"
+
+// The public instance allows at most one request per second
+const PUBLIC_MIN_INTERVAL_MS = 1000
+
+interface NominatimPlace {
+  lat: string
+  lon: string
+  name?: string
+  display_name: string
+  type?: string
+  addresstype?: string
+  address?: Record<string, string>
+}
+
+// Works against the public instance or a self-hosted one (same API)
+export function createNominatimProvider(baseUrl = PUBLIC_NOMINATIM_URL): GeocodingProvider {
+  const root = baseUrl.replace(/\/+$/, "")
+  const isPublic = root === PUBLIC_NOMINATIM_URL
+  const name = isPublic ? "nominatim" : "nominatim (self-hosted)"
+
+  let queue: Promise<unknown> = Promise.resolve()
+  const throttled = (url: string, signal?: AbortSignal): Promise<Response> => {
+    if (!isPublic) return fetch(url, { signal })
+    let sent = false
+    const request = queue.then(() => {
+      // Requests cancelled while queued give up their turn without using up the interval
+      signal?.throwIfAborted()
+      sent = true
+      return fetch(url, { signal })
+    })
+    queue = request
+      .catch(() => undefined)
+      .then(() => sent && new Promise((resolve) => setTimeout(resolve, PUBLIC_MIN_INTERVAL_MS)))
+    return request
+  }
+
+  return {
+    name,
+    async search(query: string, { limit = 5, signal }: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+      const params = new URLSearchParams({ format: "jsonv2", q: query, limit: String(limit), addressdetails: "1" })
+      const response = await throttled(`${root}/search?${params.toString()}`, signal)
+      if (!response.ok) throw new Error(`Nominatim responded with ${response.status}`)
+
+      const places: NominatimPlace[] = await response.json()
+      return places.map((place) => ({
+        lat: Number.parseFloat(place.lat),
+        lng: Number.parseFloat(place.lon),
+        name: place.name || place.display_name.split(",")[0],
+        label: place.display_name,
+        type: (place.addresstype || place.type)?.replace(/_/g, " "),
+        district: place.address?.state_district || place.address?.county,
+        state: place.address?.state,
+        source: name,
+      }))
+    },
+    async reverse(
+      lat: number,
+      lng: number,
+      { signal }: ReverseGeocodeOptions = {},
+    ): Promise<ReverseGeocodeResult | null> {
+      const params = new URLSearchParams({
+        format: "jsonv2",
+        lat: String(lat),
+        lon: String(lng),
+        zoom: "17",
+        addressdetails: "1",
+      })
+      const response = await throttled(`${root}/reverse?${params.toString()}`, signal)
+      if (!response.ok) throw new Error(`Nominatim responded with ${response.status}`)
+
+      const place: NominatimPlace & { error?: string } = await response.json()
+      if (place.error || !place.address) return null
+
+      const address = place.address
+      return {
+        road: address.road || address.pedestrian || address.residential,
+        locality:
+          address.suburb || address.neighbourhood || address.village || address.town || address.city || address.hamlet,
+        district: address.state_district || address.county,
+        state: address.state,
+        source: name,
+      }
+    },
+  }
+}
@@ -0,0 +1,75 @@
+import type {
+  GeocodeOptions,
+  GeocodeResult,
+  GeocodingProvider,
+  ReverseGeocodeOptions,
+  ReverseGeocodeResult,
+} from "@/lib/geocoding/types"
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] }
+  properties: {
+    name?: string
+    street?: string
+    osm_key?: string
+    osm_value?: string
+    type?: string
+    city?: string
+    district?: string
+    county?: string
+    state?: string
+  }
+}
+
+// Photon (https://github.com/komoot/photon) is the usual choice for a self-hosted OSM geocoder
+export function createPhotonProvider(baseUrl: string): GeocodingProvider {
+  const root = baseUrl.replace(/\/+$/, "")
+
+  return {
+    name: "photon",
+    async search(query: string, { limit = 5, signal }: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+      const params = new URLSearchParams({ q: query, limit: String(limit) })
+      const response = await fetch(`${root}/api?${params.toString()}`, { signal })
+      if (!response.ok) throw new Error(`Photon responded with ${response.status}`)
+
+      const data: { features: PhotonFeature[] } = await response.json()
+      return data.features.map(({ geometry, properties }) => {
+        const name = properties.name || properties.city || query
+        const district = properties.county || properties.district
+        return {
+          lat: geometry.coordinates[1],
+          lng: geometry.coordinates[0],
+          name,
+          label: [name, properties.city !== name ? properties.city : undefined, district, properties.state]
+            .filter(Boolean)
+            .join(", "),
+          type: (properties.osm_value || properties.type)?.replace(/_/g, " "),
+          district,
+          state: properties.state,
+          source: "photon",
+        }
+      })
+    },
+    async reverse(
+      lat: number,
+      lng: number,
+      { signal }: ReverseGeocodeOptions = {},
+    ): Promise<ReverseGeocodeResult | null> {
+      const params = new URLSearchParams({ lat: String(lat), lon: String(lng) })
+      const response = await fetch(`${root}/reverse?${params.toString()}`, { signal })
+      if (!response.ok) throw new Error(`Photon responded with ${response.status}`)
+
+      const data: { features: PhotonFeature[] } = await response.json()
+      const properties = data.features[0]?.properties
+      if (!properties) return null
+
+      return {
+        road: properties.street || (properties.osm_key === "highway" ? properties.name : undefined),
+        locality: properties.district || properties.city,
+        district: properties.county,
+        state: properties.state,
+        source: "photon",
+      }
+    },
+  }
+}
@@ -0,0 +1,46 @@
+import { withCache } from "@/lib/cache/response-cache"
+import { getGeocodingProvider } from "@/lib/geocoding"
+import type { ReverseGeocodeOptions, ReverseGeocodeResult } from "@/lib/geocoding/types"
+
+// ~11 m at the equator: close enough that neighbouring pins share a lookup
+const CACHE_PRECISION = 4
+// Roads and localities barely change, and the public geocoders only answer one lookup a second
+const REVERSE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+const REVERSE_CACHE_MAX_ENTRIES = 500
+
+const cacheKey = (lat: number, lng: number) => `${lat.toFixed(CACHE_PRECISION)},${lng.toFixed(CACHE_PRECISION)}`
+
+// Answers are kept in the on-device response cache, so an address found once survives a reload
+export async function reverseGeocode(
+  lat: number,
+  lng: number,
+  { signal }: ReverseGeocodeOptions = {},
+): Promise<ReverseGeocodeResult | null> {
+  try {
+    const { value } = await withCache(
+      {
+        namespace: "reverse",
+        key: cacheKey(lat, lng),
+        ttlMs: REVERSE_CACHE_TTL_MS,
+        maxEntries: REVERSE_CACHE_MAX_ENTRIES,
+        // Nothing found may just be a gap in one provider; ask again next time
+        shouldCache: (result) => result !== null,
+      },
+      () => getGeocodingProvider().reverse(lat, lng, { signal }),
+    )
+    return value
+  } catch (error) {
+    // Failures aren't cached, so the next load tries again
+    if (!signal?.aborted) console.error("Reverse geocoding error:", error)
+    return null
+  }
+}
+
+// "Near MG Road, Civil Lines, Dehradun" - the prefix makes clear it is derived, not a postal address
+export function composeAddress(result: ReverseGeocodeResult): string | null {
+  const parts = [result.locality, result.district ?? result.state].filter(
+    (part, index, all): part is string => !!part && all.indexOf(part) === index,
+  )
+  if (result.road) return `Near ${[result.road, ...parts].join(", ")}`
+  return parts.length > 0 ? `Near ${parts.join(", ")}` : null
+}
@@ -0,0 +1,37 @@
+export interface GeocodeResult {
+  lat: number
+  lng: number
+  name: string
+  // Full human readable label, e.g. "Lansdowne, Pauri Garhwal, Uttarakhand"
+  label: string
+  // Place kind as reported by the source, e.g. "town", "cantonment", "railway station"
+  type?: string
+  district?: string
+  state?: string
+  // Which provider answered, for diagnostics
+  source: string
+}
+
+export interface GeocodeOptions {
+  limit?: number
+  signal?: AbortSignal
+}
+
+export interface GeocodingProvider {
+  name: string
+  search(query: string, options?: GeocodeOptions): Promise<GeocodeResult[]>
+  // Nearest road / locality / district for a point; providers that can't answer return null
+  reverse(lat: number, lng: number, options?: ReverseGeocodeOptions): Promise<ReverseGeocodeResult | null>
+}
+
+export interface ReverseGeocodeResult {
+  road?: string
+  locality?: string
+  district?: string
+  state?: string
+  source: string
+}
+
+export interface ReverseGeocodeOptions {
+  signal?: AbortSignal
+}
@@ -0,0 +1,105 @@
+import type { Point } from "@/lib/geo"
+
+// Screen-space layout for map markers: pins that would sit on top of each other are grouped into counted
+// clusters, and labels go on whichever side of their pin is free, or are left out.
+
+export interface Cluster<T> {
+  items: T[]
+  // Centre of the grouped pins
+  point: Point
+}
+
+export interface Box {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export type LabelSide = "right" | "left" | "above" | "below"
+
+export interface LabelRequest {
+  id: string
+  point: Point
+  width: number
+}
+
+// Gap between a pin's centre and its label
+const LABEL_OFFSET_PX = 10
+export const LABEL_HEIGHT_PX = 14
+const LABEL_SIDES: LabelSide[] = ["right", "left", "above", "below"]
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+// Greedy: each pin not yet taken gathers every other free pin within `radiusPx` of it
+export function clusterByDistance<T>(items: T[], pointOf: (item: T) => Point, radiusPx: number): Cluster<T>[] {
+  const points = items.map(pointOf)
+  const taken = new Set<number>()
+  const clusters: Cluster<T>[] = []
+
+  points.forEach((seed, index) => {
+    if (taken.has(index)) return
+    const members = points.flatMap((point, other) =>
+      !taken.has(other) && distance(seed, point) <= radiusPx ? [other] : [],
+    )
+    members.forEach((member) => taken.add(member))
+    clusters.push({
+      items: members.map((member) => items[member]),
+      point: {
+        x: members.reduce((sum, member) => sum + points[member].x, 0) / members.length,
+        y: members.reduce((sum, member) => sum + points[member].y, 0) / members.length,
+      },
+    })
+  })
+  return clusters
+}
+
+export const boxAround = ({ x, y }: Point, width: number, height = width): Box => ({
+  left: x - width / 2,
+  top: y - height / 2,
+  width,
+  height,
+})
+
+const overlaps = (a: Box, b: Box) =>
+  a.left < b.left + b.width && b.left < a.left + a.width && a.top < b.top + b.height && b.top < a.top + a.height
+
+const labelBox = ({ x, y }: Point, width: number, side: LabelSide): Box => {
+  const height = LABEL_HEIGHT_PX
+  switch (side) {
+    case "right":
+      return { left: x + LABEL_OFFSET_PX, top: y - height / 2, width, height }
+    case "left":
+      return { left: x - LABEL_OFFSET_PX - width, top: y - height / 2, width, height }
+    case "above":
+      return { left: x - width / 2, top: y - LABEL_OFFSET_PX - height, width, height }
+    case "below":
+      return { left: x - width / 2, top: y + LABEL_OFFSET_PX, width, height }
+  }
+}
+
+// Labels are placed in the order given, so put the ones that matter most first. A label that can't go on
+// any side without covering another pin, an earlier label or the edge of the view gets no entry.
+// `obstacles` are keyed like the labels, so a label never has to clear its own pin.
+export function placeLabels(
+  labels: LabelRequest[],
+  obstacles: Map<string, Box>,
+  view: { width: number; height: number },
+): Map<string, LabelSide> {
+  const placed: Box[] = []
+  const sides = new Map<string, LabelSide>()
+
+  for (const { id, point, width } of labels) {
+    const side = LABEL_SIDES.find((candidate) => {
+      const box = labelBox(point, width, candidate)
+      const inView =
+        box.left >= 0 && box.top >= 0 && box.left + width <= view.width && box.top + box.height <= view.height
+      const blockers = [...obstacles].flatMap(([key, other]) => (key === id ? [] : [other]))
+      return inView && ![...blockers, ...placed].some((other) => overlaps(box, other))
+    })
+    if (!side) continue
+    sides.set(id, side)
+    placed.push(labelBox(point, width, side))
+  }
+  return sides
+}
@@ -0,0 +1,71 @@
+import type { LatLng } from "@/lib/coordinates"
+import { calculateDistance } from "@/lib/geo"
+import { ADDRESS_NOT_AVAILABLE, getTroopCapacity, type Amenity, type Location } from "@/lib/places"
+
+export type PlaceSort = "distance" | "rating" | "capacity"
+
+export const PLACE_SORT_LABELS: Record<PlaceSort, string> = {
+  distance: "Distance",
+  rating: "Star rating",
+  capacity: "Capacity",
+}
+
+export interface PlaceFilters {
+  // 0 means any rating, unrated places included
+  minRating: number
+  // Distance from the user's own position; null means no limit
+  maxDistanceKm: number | null
+  requireName: boolean
+  requireAddress: boolean
+  amenities: Amenity[]
+  sortBy: PlaceSort
+}
+
+export const DEFAULT_PLACE_FILTERS: PlaceFilters = {
+  minRating: 0,
+  maxDistanceKm: null,
+  requireName: false,
+  requireAddress: false,
+  amenities: [],
+  sortBy: "distance",
+}
+
+// Number of filters that differ from the defaults, for the badge on the filter button
+export const countActiveFilters = (filters: PlaceFilters) =>
+  [
+    filters.minRating > 0,
+    filters.maxDistanceKm !== null,
+    filters.requireName,
+    filters.requireAddress,
+    filters.amenities.length > 0,
+  ].filter(Boolean).length
+
+// Places missing the sort value (no rating, unknown capacity) go last; without a user position the
+// distance filter is skipped and distance sorting keeps the search order, which is already nearest first
+export const applyPlaceFilters = (locations: Location[], filters: PlaceFilters, origin: LatLng | null): Location[] => {
+  const distanceTo = (location: Location) =>
+    origin ? calculateDistance(origin.lat, origin.lng, location.lat, location.lng) : 0
+
+  const filtered = locations.filter(
+    (location) =>
+      (filters.minRating === 0 || (location.rating ?? 0) >= filters.minRating) &&
+      (filters.maxDistanceKm === null || !origin || distanceTo(location) <= filters.maxDistanceKm) &&
+      (!filters.requireName || !location.unnamed) &&
+      (!filters.requireAddress || location.address !== ADDRESS_NOT_AVAILABLE) &&
+      filters.amenities.every((amenity) => location.amenities?.includes(amenity)),
+  )
+
+  const sortKey: Record<PlaceSort, (location: Location) => number | undefined> = {
+    distance: (location) => (origin ? distanceTo(location) : undefined),
+    rating: (location) => (location.rating === undefined ? undefined : -location.rating),
+    capacity: (location) => {
+      const capacity = getTroopCapacity(location)
+      return capacity === undefined ? undefined : -capacity
+    },
+  }
+  return filtered.sort((a, b) => {
+    const [keyA, keyB] = [sortKey[filters.sortBy](a), sortKey[filters.sortBy](b)]
+    if (keyA === undefined || keyB === undefined) return Number(keyA === undefined) - Number(keyB === undefined)
+    return keyA - keyB
+  })
+}
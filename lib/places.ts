@@ -0,0 +1,282 @@
+import { estimateTroopCapacity, type CapacityRecord } from "@/lib/billeting/capacity"
+import { roundCoordinate, withCache, type CachedValue } from "@/lib/cache/response-cache"
+import { getCategory, PLACE_TYPES, type PlaceCategory, type PlaceType } from "@/lib/categories"
+import { calculateDistance } from "@/lib/geo"
+import { composeAddress, reverseGeocode } from "@/lib/geocoding/reverse"
+
+export interface Location {
+  id: string
+  name: string
+  lat: number
+  lng: number
+  address: string
+  type: PlaceType
+  rating?: number
+  // No name tag in OSM, so `name` is a generated placeholder
+  unnamed?: boolean
+  amenities?: Amenity[]
+  // People it can take, from the OSM capacity/beds tags
+  capacity?: number
+  phone?: string
+  website?: string
+  rooms?: number
+  beds?: number
+  checkIn?: string
+  checkOut?: string
+  operator?: string
+  // OSM parking value, e.g. "surface" or "underground"
+  parking?: string
+  // Raw OSM opening_hours, e.g. "Mo-Su 06:00-22:00"
+  openingHours?: string
+  // Capacity recorded by a billeting officer, attached on every load rather than cached
+  billeting?: CapacityRecord
+}
+
+export interface SearchOptions {
+  radiusKm: number
+  // Maximum number of places returned, nearest first
+  limit: number
+}
+
+export interface NearbyPlaces {
+  locations: Location[]
+  // Radius actually searched; larger than requested when the search had to expand
+  radiusKm: number
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { radiusKm: 5, limit: 10 }
+
+export const MAX_RADIUS_KM = 25
+
+// Sparse areas get a wider search rather than an almost empty map
+const MIN_RESULTS_BEFORE_EXPANDING = 3
+
+export const ADDRESS_NOT_AVAILABLE = "Address not available"
+
+// Reverse lookups still pending after this are cancelled; the ones that finished are cached for the next load
+const ADDRESS_LOOKUP_BUDGET_MS = 5000
+// The public Nominatim answers one lookup a second, so only the nearest few places are looked up per load
+const MAX_ADDRESS_LOOKUPS = 5
+
+// Bumped when ids gained the OSM element type, so cached places never carry the old bare numbers
+const PLACES_CACHE_NAMESPACE = "places-v2"
+const PLACES_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const PLACES_CACHE_MAX_ENTRIES = 100
+
+const addressFromTags = (tags: Record<string, string> | undefined): string | null => {
+  if (!tags) return null
+  if (tags["addr:full"]) return tags["addr:full"]
+
+  const street = [tags["addr:housenumber"], tags["addr:street"]].filter(Boolean).join(" ")
+  const parts = [street, tags["addr:suburb"], tags["addr:city"] || tags["addr:place"]].filter(Boolean)
+  return tags["addr:street"] && parts.length > 0 ? parts.join(", ") : null
+}
+
+export type Amenity = "parking" | "restaurant" | "wheelchair"
+
+export const AMENITIES: Record<Amenity, { label: string; fromTags: (tags: Record<string, string>) => boolean }> = {
+  parking: {
+    label: "Parking",
+    fromTags: (tags) => (!!tags.parking && tags.parking !== "no") || /^(yes|designated)$/.test(tags.hgv ?? ""),
+  },
+  restaurant: {
+    label: "Restaurant",
+    fromTags: (tags) => tags.restaurant === "yes" || tags.food === "yes" || !!tags.cuisine,
+  },
+  wheelchair: {
+    label: "Wheelchair access",
+    fromTags: (tags) => /^(yes|designated|limited)$/.test(tags.wheelchair ?? ""),
+  },
+}
+
+const amenitiesFromTags = (tags: Record<string, string> | undefined): Amenity[] =>
+  (Object.keys(AMENITIES) as Amenity[]).filter((amenity) => AMENITIES[amenity].fromTags(tags ?? {}))
+
+const parseCount = (value: string | undefined): number | undefined => {
+  const count = Number.parseInt(value ?? "", 10)
+  return Number.isNaN(count) ? undefined : count
+}
+
+// Contact and stay details; each field is left out when the place doesn't carry the tag
+const detailsFromTags = (tags: Record<string, string> = {}): Partial<Location> => {
+  const details: Partial<Location> = {
+    capacity: parseCount(tags.capacity || tags.beds),
+    phone: tags.phone || tags["contact:phone"] || tags["contact:mobile"],
+    website: tags.website || tags["contact:website"] || tags.url,
+    rooms: parseCount(tags.rooms),
+    beds: parseCount(tags.beds),
+    checkIn: tags.check_in || tags.checkin,
+    checkOut: tags.check_out || tags.checkout,
+    operator: tags.operator,
+    parking: tags.parking,
+    openingHours: tags.opening_hours,
+  }
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined))
+}
+
+// Most OSM hotels in smaller towns carry no addr:* tags, so fill the gaps from the reverse geocoder
+const fillMissingAddresses = async (locations: Location[]): Promise<Location[]> => {
+  // Locations come nearest first
+  const lookedUp = new Set(
+    locations.filter((location) => location.address === ADDRESS_NOT_AVAILABLE).slice(0, MAX_ADDRESS_LOOKUPS),
+  )
+  if (lookedUp.size === 0) return locations
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), ADDRESS_LOOKUP_BUDGET_MS)
+
+  const filled = await Promise.all(
+    locations.map(async (location) => {
+      if (!lookedUp.has(location)) return location
+
+      const result = await reverseGeocode(location.lat, location.lng, { signal: controller.signal })
+      const address = result ? composeAddress(result) : null
+      return address ? { ...location, address } : location
+    }),
+  )
+  clearTimeout(timeout)
+  return filled
+}
+
+// Checks a single Overpass filter such as `["amenity"="parking"]["hgv"~"^(yes|designated)$"]` against OSM tags
+const matchesFilter = (tags: Record<string, string>, filter: string) =>
+  [...filter.matchAll(/\["([^"]+)"(=|~)"([^"]+)"\]/g)].every(([, key, operator, value]) =>
+    operator === "=" ? tags[key] === value : tags[key] !== undefined && new RegExp(value).test(tags[key]),
+  )
+
+const classifyElement = (tags: Record<string, string> | undefined, types: PlaceType[]): PlaceType =>
+  types.find((type) => PLACE_TYPES[type].filters.some((filter) => matchesFilter(tags ?? {}, filter))) ?? types[0]
+
+// Raw Overpass matches within the radius, nearest first, before the result cap and address lookups
+const queryOverpass = async (lat: number, lng: number, types: PlaceType[], radiusKm: number): Promise<Location[]> => {
+  const around = `(around:${Math.round(radiusKm * 1000)},${lat},${lng})`
+  const selectors = types
+    .flatMap((type) => PLACE_TYPES[type].filters)
+    .flatMap((filter) => [`node${filter}${around};`, `way${filter}${around};`, `relation${filter}${around};`])
+  const overpassQuery = `[out:json][timeout:25];(${selectors.join("")});out center meta;`
+
+  const response = await fetch("https://overpass-api.de/api/interpreter", {
+    method: "POST",
+    body: overpassQuery,
+  })
+
+  if (!response.ok) throw new Error(`Overpass responded with ${response.status}`)
+  const data = await response.json()
+
+  const locations: Location[] = data.elements.map((element: any, index: number) => {
+    const type = classifyElement(element.tags, types)
+    return {
+      // Nodes, ways and relations are numbered separately, so the number alone can name two places
+      id: element.id !== undefined ? `${element.type}/${element.id}` : `${type}-${index}`,
+      name: element.tags?.name || `${PLACE_TYPES[type].label} ${index + 1}`,
+      lat: element.lat || element.center?.lat || lat,
+      lng: element.lon || element.center?.lon || lng,
+      address: addressFromTags(element.tags) || ADDRESS_NOT_AVAILABLE,
+      type,
+      rating: element.tags?.stars ? Number.parseFloat(element.tags.stars) : undefined,
+      unnamed: !element.tags?.name,
+      amenities: amenitiesFromTags(element.tags),
+      ...detailsFromTags(element.tags),
+    }
+  })
+
+  const distanceFromCenter = (location: Location) => calculateDistance(lat, lng, location.lat, location.lng)
+  return locations.sort((a, b) => distanceFromCenter(a) - distanceFromCenter(b))
+}
+
+// Doubles the radius (up to MAX_RADIUS_KM) until enough places turn up, then keeps the nearest `limit`.
+// Addresses are left as they are in OSM so that only this part is cached, never a lookup that timed out.
+const searchNearby = async (
+  lat: number,
+  lng: number,
+  category: PlaceCategory,
+  { radiusKm, limit }: SearchOptions,
+): Promise<NearbyPlaces> => {
+  const types = getCategory(category).placeTypes
+  const minResults = Math.min(MIN_RESULTS_BEFORE_EXPANDING, limit)
+
+  let searchedRadiusKm = radiusKm
+  let locations = await queryOverpass(lat, lng, types, searchedRadiusKm)
+  while (locations.length < minResults && searchedRadiusKm < MAX_RADIUS_KM) {
+    searchedRadiusKm = Math.min(searchedRadiusKm * 2, MAX_RADIUS_KM)
+    locations = await queryOverpass(lat, lng, types, searchedRadiusKm)
+  }
+
+  return { locations: locations.slice(0, limit), radiusKm: searchedRadiusKm }
+}
+
+// Troops a place can hold: the billeting officer's record wins over OSM's capacity/beds tags
+export const getTroopCapacity = (location: Location): number | undefined =>
+  (location.billeting && estimateTroopCapacity(location.billeting)) ?? location.capacity
+
+const attachCapacityRecords = async (locations: Location[]): Promise<Location[]> => {
+  if (locations.length === 0) return locations
+
+  try {
+    const ids = locations.map((location) => location.id).join(",")
+    const response = await fetch(`/api/capacity?ids=${encodeURIComponent(ids)}`)
+    if (!response.ok) throw new Error(`Capacity lookup responded with ${response.status}`)
+    const { records } = (await response.json()) as { records: Record<string, CapacityRecord> }
+    return locations.map((location) => ({ ...location, billeting: records[location.id] }))
+  } catch (error) {
+    // Offline or signed out: the places are still usable without recorded capacity
+    console.error("Error fetching capacity records:", error)
+    return locations
+  }
+}
+
+export const fetchNearbyPlaces = async (
+  lat: number,
+  lng: number,
+  category: PlaceCategory,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS,
+): Promise<CachedValue<NearbyPlaces>> => {
+  const { value, fromCache } = await searchOrFallback(lat, lng, category, options)
+  const locations = await fillMissingAddresses(value.locations)
+  return { value: { ...value, locations: await attachCapacityRecords(locations) }, fromCache }
+}
+
+const searchOrFallback = async (
+  lat: number,
+  lng: number,
+  category: PlaceCategory,
+  options: SearchOptions,
+): Promise<CachedValue<NearbyPlaces>> => {
+  try {
+    return await withCache(
+      {
+        namespace: PLACES_CACHE_NAMESPACE,
+        key: `${category}:${options.radiusKm}km:${options.limit}:${roundCoordinate(lat)},${roundCoordinate(lng)}`,
+        ttlMs: PLACES_CACHE_TTL_MS,
+        maxEntries: PLACES_CACHE_MAX_ENTRIES,
+      },
+      () => searchNearby(lat, lng, category, options),
+    )
+  } catch (error) {
+    console.error("Error fetching places:", error)
+    // Return fallback data if API fails (not cached, so real data replaces it once back online)
+    return {
+      value: { locations: generateFallbackLocations(lat, lng, category, options.radiusKm), radiusKm: options.radiusKm },
+      fromCache: false,
+    }
+  }
+}
+
+const FALLBACK_ID_PREFIX = "fallback-"
+
+// Made-up places shown when Overpass is unreachable. Their ids repeat in every search area, so nothing
+// (capacity, bookings) may be stored against them.
+export const isFallbackLocationId = (id: string) => id.startsWith(FALLBACK_ID_PREFIX)
+
+const generateFallbackLocations = (lat: number, lng: number, category: PlaceCategory, radiusKm: number): Location[] => {
+  const spread = radiusKm / 111.32
+  return getCategory(category).fallbackPlaces.map(({ name, type }, index) => ({
+    id: `${FALLBACK_ID_PREFIX}${category}-${index}`,
+    name,
+    lat: lat + (Math.random() - 0.5) * spread,
+    lng: lng + (Math.random() - 0.5) * spread,
+    address: `${name} Address, Delhi`,
+    type,
+    rating: type === "hotel" ? 3 + Math.random() * 2 : undefined,
+  }))
+}
@@ -0,0 +1,95 @@
+import { roundCoordinate, withCache, type CachedValue } from "@/lib/cache/response-cache"
+import type { LatLng } from "@/lib/coordinates"
+import { calculateDistance } from "@/lib/geo"
+
+export interface RouteData {
+  distance: string
+  duration: string
+  steps: Array<{
+    instruction: string
+    distance: string
+    duration: string
+  }>
+  // The road line from start to end; empty for a straight-line estimate
+  geometry: LatLng[]
+}
+
+type Point = { lat: number; lng: number }
+
+// Bumped when RouteData gained the geometry, so older entries without it are never served
+const ROUTE_CACHE_NAMESPACE = "route-v2"
+const ROUTE_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const ROUTE_CACHE_MAX_ENTRIES = 100
+
+const requestOsrmRoute = async (start: Point, end: Point): Promise<RouteData> => {
+  const response = await fetch(
+    `https://router.project-osrm.org/route/v1/driving/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&geometries=geojson&steps=true`,
+  )
+  if (!response.ok) throw new Error(`OSRM responded with ${response.status}`)
+
+  const data = await response.json()
+  const route = data.routes[0]
+
+  return {
+    distance: `${(route.distance / 1000).toFixed(1)} km`,
+    duration: `${Math.round(route.duration / 60)} min`,
+    steps: route.legs[0].steps.slice(0, 8).map((step: any) => ({
+      instruction: step.maneuver.instruction || "Continue straight",
+      distance: `${(step.distance / 1000).toFixed(1)} km`,
+      duration: `${Math.round(step.duration / 60)} min`,
+    })),
+    // GeoJSON LineString, so [lng, lat] pairs
+    geometry: route.geometry.coordinates.map(([lng, lat]: [number, number]) => ({ lat, lng })),
+  }
+}
+
+// Straight-line estimate when no router is reachable; never cached
+const estimateRoute = (start: Point, end: Point): RouteData => {
+  const distance = calculateDistance(start.lat, start.lng, end.lat, end.lng)
+  const duration = Math.round(distance * 2) // Rough estimate: 2 min per km
+
+  return {
+    distance: `${distance.toFixed(1)} km`,
+    duration: `${duration} min`,
+    steps: [
+      {
+        instruction: "Head towards destination",
+        distance: `${(distance * 0.3).toFixed(1)} km`,
+        duration: `${Math.round(duration * 0.3)} min`,
+      },
+      {
+        instruction: "Continue on main road",
+        distance: `${(distance * 0.4).toFixed(1)} km`,
+        duration: `${Math.round(duration * 0.4)} min`,
+      },
+      {
+        instruction: "Turn towards destination",
+        distance: `${(distance * 0.2).toFixed(1)} km`,
+        duration: `${Math.round(duration * 0.2)} min`,
+      },
+      {
+        instruction: "Arrive at destination",
+        distance: `${(distance * 0.1).toFixed(1)} km`,
+        duration: `${Math.round(duration * 0.1)} min`,
+      },
+    ],
+    geometry: [],
+  }
+}
+
+export const calculateRoute = async (start: Point, end: Point): Promise<CachedValue<RouteData>> => {
+  try {
+    return await withCache(
+      {
+        namespace: ROUTE_CACHE_NAMESPACE,
+        key: [start.lat, start.lng, end.lat, end.lng].map((value) => roundCoordinate(value)).join(","),
+        ttlMs: ROUTE_CACHE_TTL_MS,
+        maxEntries: ROUTE_CACHE_MAX_ENTRIES,
+      },
+      () => requestOsrmRoute(start, end),
+    )
+  } catch (error) {
+    console.error("Routing error:", error)
+    return { value: estimateRoute(start, end), fromCache: false }
+  }
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Server-side persistence for small records (users, sessions, bookings...).
+// Everything lives as plain JSON under RATURI_DATA_DIR so the app runs fully
+// offline without a database server.
+
+export const getDataDir = () => process.env.RATURI_DATA_DIR || path.join(process.cwd(), "data")
+
+const locks = new Map<string, Promise<unknown>>()
+
+const resolveFile = (name: string) => path.join(getDataDir(), name)
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(resolveFile(name), "utf8")
+    return JSON.parse(raw) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback
+    throw error
+  }
+}
+
+export async function writeJsonFile<T>(name: string, value: T): Promise<void> {
+  const file = resolveFile(name)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  // Write to a temp file first so a crash never leaves half a JSON document behind
+  const tmp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8")
+  await fs.rename(tmp, file)
+}
+
+// Read-modify-write with a per-file lock so concurrent requests don't clobber each other
+export async function updateJsonFile<T, R>(
+  name: string,
+  fallback: T,
+  update: (value: T) => R | Promise<R>,
+): Promise<R> {
+  const previous = locks.get(name) ?? Promise.resolve()
+  const next = previous.then(async () => {
+    const value = await readJsonFile(name, fallback)
+    const result = await update(value)
+    await writeJsonFile(name, value)
+    return result
+  })
+  const settled = next.catch(() => undefined)
+  locks.set(name, settled)
+  try {
+    return await next
+  } finally {
+    if (locks.get(name) === settled) locks.delete(name)
+  }
+}
+
+// Append-only log (one JSON document per line), e.g. for audit trails
+export async function appendJsonLine<T>(name: string, value: T): Promise<void> {
+  const file = resolveFile(name)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.appendFile(file, `${JSON.stringify(value)}\n`, "utf8")
+}
@@ -0,0 +1,107 @@
+import { project, TILE_SIZE, type Bounds, type Point } from "@/lib/geo"
+
+// XYZ raster tiles for the slippy map. The server is configurable so a formation can point the app at
+// its own tile server instead of the public OSM one.
+
+export interface TileSource {
+  // {z}/{x}/{y} placeholders, plus an optional {s} for a/b/c subdomains
+  urlTemplate: string
+  attribution: string
+  minZoom: number
+  maxZoom: number
+}
+
+export interface TileCoord {
+  x: number
+  y: number
+  z: number
+}
+
+const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png"
+const DEFAULT_ATTRIBUTION = "© OpenStreetMap contributors"
+
+const readZoom = (value: string | undefined, fallback: number) => {
+  const zoom = Number.parseInt(value || "", 10)
+  return Number.isFinite(zoom) && zoom >= 0 ? zoom : fallback
+}
+
+let tileSource: TileSource | null = null
+
+export function getTileSource(): TileSource {
+  if (tileSource) return tileSource
+
+  tileSource = {
+    urlTemplate: process.env.NEXT_PUBLIC_TILE_URL || DEFAULT_TILE_URL,
+    attribution: process.env.NEXT_PUBLIC_TILE_ATTRIBUTION || DEFAULT_ATTRIBUTION,
+    minZoom: 2,
+    maxZoom: readZoom(process.env.NEXT_PUBLIC_TILE_MAX_ZOOM, 19),
+  }
+  return tileSource
+}
+
+export const tileKey = ({ x, y, z }: TileCoord) => `${z}/${x}/${y}`
+
+export const tileUrl = (urlTemplate: string, { x, y, z }: TileCoord) =>
+  urlTemplate
+    .replace("{s}", "abc"[(x + y) % 3])
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+
+export interface ViewTile {
+  // Unique within the view even when the world repeats at low zoom
+  key: string
+  coord: TileCoord
+  // Top-left corner relative to the view's origin, in pixels at the tile's zoom
+  offset: Point
+}
+
+// Tiles needed to cover a width × height pixel view whose top-left corner sits at `origin` (in world
+// pixels at zoom z). Columns wrap around the antimeridian; rows past the poles are skipped.
+export const tilesInView = (origin: Point, width: number, height: number, z: number): ViewTile[] => {
+  const count = 2 ** z
+  const tiles: ViewTile[] = []
+  for (let column = Math.floor(origin.x / TILE_SIZE); column * TILE_SIZE < origin.x + width; column++) {
+    for (let row = Math.max(0, Math.floor(origin.y / TILE_SIZE)); row * TILE_SIZE < origin.y + height; row++) {
+      if (row >= count) break
+      tiles.push({
+        key: `${z}/${column}/${row}`,
+        coord: { x: ((column % count) + count) % count, y: row, z },
+        offset: { x: column * TILE_SIZE - origin.x, y: row * TILE_SIZE - origin.y },
+      })
+    }
+  }
+  return tiles
+}
+
+// Tile columns and rows that cover `bounds` at zoom z, inclusive
+export const tileRangeInBounds = ({ south, west, north, east }: Bounds, z: number) => {
+  const last = 2 ** z - 1
+  const toTile = (value: number) => Math.max(0, Math.min(last, Math.floor(value / TILE_SIZE)))
+  const topLeft = project({ lat: north, lng: west }, z)
+  const bottomRight = project({ lat: south, lng: east }, z)
+  return {
+    minX: toTile(topLeft.x),
+    maxX: toTile(bottomRight.x),
+    minY: toTile(topLeft.y),
+    maxY: toTile(bottomRight.y),
+  }
+}
+
+export const countTilesInBounds = (bounds: Bounds, minZoom: number, maxZoom: number) => {
+  let count = 0
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRangeInBounds(bounds, z)
+    count += (maxX - minX + 1) * (maxY - minY + 1)
+  }
+  return count
+}
+
+export function* tilesInBounds(bounds: Bounds, minZoom: number, maxZoom: number): Generator<TileCoord> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRangeInBounds(bounds, z)
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) yield { x, y, z }
+    }
+  }
+}
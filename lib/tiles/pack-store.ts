@@ -0,0 +1,244 @@
+import { tileKey, tilesInBounds, tileUrl, type TileCoord } from "@/lib/tiles"
+import { readPmtilesHeader, readPmtilesTiles } from "@/lib/tiles/pmtiles"
+import { MAX_PACK_TILES, type TilePack, type TilePackRequest } from "@/lib/tiles/packs"
+
+// Offline tile packs in IndexedDB. Tiles are stored per pack, so deleting one pack never takes a tile
+// another still needs; the map looks each tile up across all packs.
+
+const DB_NAME = "raturi-tiles"
+const DB_VERSION = 1
+const PACKS = "packs"
+const TILES = "tiles"
+
+// Parallel requests while downloading; tile servers throttle clients that open many more
+const DOWNLOAD_CONCURRENCY = 4
+// Tiles written per IndexedDB transaction
+const WRITE_BATCH = 50
+
+interface StoredTile {
+  key: string
+  packId: string
+  // z/x/y, shared by the same tile in different packs
+  tile: string
+  blob: Blob
+}
+
+export interface PackProgress {
+  done: number
+  total: number
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null)
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PACKS, { keyPath: "id" })
+        const tiles = request.result.createObjectStore(TILES, { keyPath: "key" })
+        tiles.createIndex("tile", "tile")
+        tiles.createIndex("packId", "packId")
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error("Tile storage unavailable:", request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const requireDb = async () => {
+  const db = await openDb()
+  if (!db) throw new Error("This browser does not allow offline storage")
+  return db
+}
+
+export async function listTilePacks(): Promise<TilePack[]> {
+  const db = await openDb()
+  if (!db) return []
+  const packs = (await promisify(db.transaction(PACKS).objectStore(PACKS).getAll())) as TilePack[]
+  return packs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getOfflineTile(coord: TileCoord): Promise<Blob | null> {
+  const db = await openDb()
+  if (!db) return null
+  const stored = (await promisify(db.transaction(TILES).objectStore(TILES).index("tile").get(tileKey(coord)))) as
+    StoredTile | undefined
+  return stored?.blob ?? null
+}
+
+export async function deleteTilePack(id: string): Promise<void> {
+  const db = await requireDb()
+  const transaction = db.transaction([PACKS, TILES], "readwrite")
+  transaction.objectStore(PACKS).delete(id)
+  const keys = await promisify(transaction.objectStore(TILES).index("packId").getAllKeys(IDBKeyRange.only(id)))
+  const tiles = transaction.objectStore(TILES)
+  await Promise.all(keys.map((key) => promisify(tiles.delete(key))))
+}
+
+const writeTiles = async (db: IDBDatabase, packId: string, tiles: Array<{ coord: TileCoord; blob: Blob }>) => {
+  const store = db.transaction(TILES, "readwrite").objectStore(TILES)
+  await Promise.all(
+    tiles.map(({ coord, blob }) => {
+      const tile = tileKey(coord)
+      return promisify(store.put({ key: `${packId}:${tile}`, packId, tile, blob } satisfies StoredTile))
+    }),
+  )
+}
+
+const savePack = async (db: IDBDatabase, pack: TilePack) => {
+  await promisify(db.transaction(PACKS, "readwrite").objectStore(PACKS).put(pack))
+  // Asks the browser not to clear the packs when space runs low
+  navigator.storage?.persist?.().catch(() => undefined)
+  return pack
+}
+
+// Leaves nothing behind when a download or import stops half way
+const discardOnError = async <T>(packId: string, work: () => Promise<T>): Promise<T> => {
+  try {
+    return await work()
+  } catch (error) {
+    await deleteTilePack(packId).catch((cleanupError) => console.error("Tile pack cleanup error:", cleanupError))
+    throw error
+  }
+}
+
+export async function downloadTilePack(
+  request: TilePackRequest,
+  urlTemplate: string,
+  onProgress: (progress: PackProgress) => void,
+  signal?: AbortSignal,
+): Promise<TilePack> {
+  const db = await requireDb()
+  const id = crypto.randomUUID()
+  const coords = [...tilesInBounds(request, request.minZoom, request.maxZoom)]
+  const progress = { done: 0, total: coords.length }
+  let bytes = 0
+  let failed = 0
+
+  return discardOnError(id, async () => {
+    const pending: Array<{ coord: TileCoord; blob: Blob }> = []
+    // Set by the first worker to fail; the rest stop taking tiles and writing them
+    let stopped = false
+    const flush = async () => {
+      const batch = pending.splice(0)
+      if (batch.length > 0 && !stopped) await writeTiles(db, id, batch)
+    }
+
+    let next = 0
+    const worker = async () => {
+      while (next < coords.length && !stopped) {
+        const coord = coords[next++]
+        try {
+          const response = await fetch(tileUrl(urlTemplate, coord), { signal })
+          if (!response.ok) throw new Error(`Tile server returned ${response.status}`)
+          const blob = await response.blob()
+          bytes += blob.size
+          pending.push({ coord, blob })
+        } catch (error) {
+          if (signal?.aborted) throw error
+          failed++
+        }
+        if (pending.length >= WRITE_BATCH) await flush()
+        progress.done++
+        onProgress({ ...progress })
+      }
+    }
+    const runWorker = () =>
+      worker().catch((error) => {
+        stopped = true
+        throw error
+      })
+
+    // Every worker has to finish its last write before a failure removes the pack, or its tiles are orphaned
+    const results = await Promise.allSettled(Array.from({ length: DOWNLOAD_CONCURRENCY }, runWorker))
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected")
+    if (failure) throw failure.reason
+    await flush()
+
+    const tileCount = coords.length - failed
+    if (tileCount === 0) throw new Error("No tiles could be downloaded. Check the connection and tile server.")
+
+    const { name, south, west, north, east, minZoom, maxZoom } = request
+    return savePack(db, {
+      id,
+      name,
+      bounds: { south, west, north, east },
+      minZoom,
+      maxZoom,
+      tileCount,
+      bytes,
+      origin: "download",
+      createdAt: new Date().toISOString(),
+    })
+  })
+}
+
+// MBTiles is SQLite and would need a database engine in the browser; convert it first with
+// `pmtiles convert area.mbtiles area.pmtiles`
+export async function importPmtilesPack(
+  file: File,
+  name: string,
+  onProgress: (progress: PackProgress) => void,
+  signal?: AbortSignal,
+): Promise<TilePack> {
+  const db = await requireDb()
+  const header = await readPmtilesHeader(file)
+  if (header.addressedTiles > MAX_PACK_TILES) {
+    throw new Error(
+      `The archive holds ${header.addressedTiles.toLocaleString()} tiles; packs are limited to ${MAX_PACK_TILES.toLocaleString()}`,
+    )
+  }
+
+  const id = crypto.randomUUID()
+  const progress = { done: 0, total: header.addressedTiles }
+  let bytes = 0
+
+  return discardOnError(id, async () => {
+    let batch: Array<{ coord: TileCoord; blob: Blob }> = []
+    for await (const tile of readPmtilesTiles(file, header)) {
+      signal?.throwIfAborted()
+      batch.push(tile)
+      bytes += tile.blob.size
+      if (batch.length >= WRITE_BATCH) {
+        await writeTiles(db, id, batch)
+        progress.done += batch.length
+        onProgress({ ...progress })
+        batch = []
+      }
+    }
+    await writeTiles(db, id, batch)
+    progress.done += batch.length
+    onProgress({ ...progress })
+
+    return savePack(db, {
+      id,
+      name,
+      bounds: header.bounds,
+      minZoom: header.minZoom,
+      maxZoom: header.maxZoom,
+      tileCount: progress.done,
+      bytes,
+      origin: "pmtiles",
+      createdAt: new Date().toISOString(),
+    })
+  })
+}
+
+// What the whole app uses on this device against what the browser will allow, where it says
+export async function estimateStorage(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null
+  const { usage, quota } = await navigator.storage.estimate()
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null
+}
@@ -0,0 +1,66 @@
+import { z } from "zod"
+import type { Bounds } from "@/lib/geo"
+import { countTilesInBounds } from "@/lib/tiles"
+
+// Offline tile packs: every tile of a bounding box over a range of zooms, kept on the device so the
+// map still draws in transit without data.
+
+// Keeps a pack to a few hundred MB. Bulk downloads also load the tile server, and the public OSM one
+// forbids them outright - point NEXT_PUBLIC_TILE_URL at a formation tile server before using this.
+export const MAX_PACK_TILES = 20000
+
+// Rough average for a 256 px raster tile, for estimates before downloading
+export const AVERAGE_TILE_BYTES = 20 * 1024
+
+export interface TilePack {
+  id: string
+  name: string
+  bounds: Bounds
+  minZoom: number
+  maxZoom: number
+  tileCount: number
+  bytes: number
+  origin: "download" | "pmtiles"
+  createdAt: string
+}
+
+const coordinate = (label: string, limit: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(-limit, `${label} is out of range`)
+    .max(limit, `${label} is out of range`)
+
+const zoomLevel = (label: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .min(0, `${label} is out of range`)
+    .max(19, `${label} is out of range`)
+
+export const tilePackInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(60),
+    south: coordinate("South", 85),
+    west: coordinate("West", 180),
+    north: coordinate("North", 85),
+    east: coordinate("East", 180),
+    minZoom: zoomLevel("Min zoom"),
+    maxZoom: zoomLevel("Max zoom"),
+  })
+  .refine((pack) => pack.north > pack.south, { message: "North must be above south", path: ["north"] })
+  .refine((pack) => pack.east > pack.west, { message: "East must be right of west", path: ["east"] })
+  .refine((pack) => pack.maxZoom >= pack.minZoom, { message: "Max zoom is below min zoom", path: ["maxZoom"] })
+  .refine((pack) => countTilesInBounds(pack, pack.minZoom, pack.maxZoom) <= MAX_PACK_TILES, {
+    message: `More than ${MAX_PACK_TILES.toLocaleString()} tiles; shrink the area or the zoom range`,
+    path: ["maxZoom"],
+  })
+
+export type TilePackInput = z.input<typeof tilePackInputSchema>
+
+export type TilePackRequest = z.output<typeof tilePackInputSchema>
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
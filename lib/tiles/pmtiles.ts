@@ -0,0 +1,166 @@
+import type { Bounds } from "@/lib/geo"
+import type { TileCoord } from "@/lib/tiles"
+
+// Reads raster tiles out of a PMTiles v3 archive (github.com/protomaps/PMTiles, spec/v3) straight from a
+// local file, one slice at a time, so an archive never has to fit in memory.
+
+export interface PmtilesHeader {
+  rootDirectoryOffset: number
+  rootDirectoryLength: number
+  leafDirectoriesOffset: number
+  tileDataOffset: number
+  // Counting each tile of a run separately
+  addressedTiles: number
+  internalCompression: number
+  tileCompression: number
+  tileType: number
+  minZoom: number
+  maxZoom: number
+  bounds: Bounds
+}
+
+interface DirectoryEntry {
+  tileId: number
+  offset: number
+  length: number
+  // 0 points at a leaf directory; otherwise this many consecutive tile ids share the same data
+  runLength: number
+}
+
+const HEADER_BYTES = 127
+
+const COMPRESSION_UNKNOWN = 0
+const COMPRESSION_NONE = 1
+const COMPRESSION_GZIP = 2
+
+const RASTER_TYPES: Record<number, string> = {
+  2: "image/png",
+  3: "image/jpeg",
+  4: "image/webp",
+  5: "image/avif",
+}
+
+const readSlice = (file: Blob, offset: number, length: number) => file.slice(offset, offset + length).arrayBuffer()
+
+const decompress = async (data: ArrayBuffer, compression: number): Promise<ArrayBuffer> => {
+  if (compression === COMPRESSION_NONE || compression === COMPRESSION_UNKNOWN) return data
+  if (compression === COMPRESSION_GZIP) {
+    return new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"))).arrayBuffer()
+  }
+  throw new Error("Only gzip-compressed or uncompressed PMTiles archives can be imported")
+}
+
+// Offsets are 64-bit little-endian; archives stay far below 2^53 bytes
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32
+
+export async function readPmtilesHeader(file: Blob): Promise<PmtilesHeader> {
+  const view = new DataView(await readSlice(file, 0, HEADER_BYTES))
+  const isPmtiles =
+    view.byteLength === HEADER_BYTES && String.fromCharCode(...new Uint8Array(view.buffer, 0, 7)) === "PMTiles"
+  if (!isPmtiles) throw new Error("Not a PMTiles archive")
+  if (view.getUint8(7) !== 3) throw new Error("Only PMTiles version 3 archives can be imported")
+
+  const degrees = (offset: number) => view.getInt32(offset, true) / 1e7
+  return {
+    rootDirectoryOffset: readUint64(view, 8),
+    rootDirectoryLength: readUint64(view, 16),
+    leafDirectoriesOffset: readUint64(view, 40),
+    tileDataOffset: readUint64(view, 56),
+    addressedTiles: readUint64(view, 72),
+    internalCompression: view.getUint8(97),
+    tileCompression: view.getUint8(98),
+    tileType: view.getUint8(99),
+    minZoom: view.getUint8(100),
+    maxZoom: view.getUint8(101),
+    bounds: { west: degrees(102), south: degrees(106), east: degrees(110), north: degrees(114) },
+  }
+}
+
+// Columns of varints: delta-encoded tile ids, run lengths, lengths, then offsets where 0 means
+// "straight after the previous entry"
+const parseDirectory = (data: ArrayBuffer): DirectoryEntry[] => {
+  const bytes = new Uint8Array(data)
+  let position = 0
+  const readVarint = () => {
+    let value = 0
+    let multiplier = 1
+    let byte: number
+    do {
+      byte = bytes[position++]
+      value += (byte & 0x7f) * multiplier
+      multiplier *= 128
+    } while (byte & 0x80)
+    return value
+  }
+
+  const entries = Array.from({ length: readVarint() }, () => ({ tileId: 0, offset: 0, length: 0, runLength: 0 }))
+  let tileId = 0
+  entries.forEach((entry) => (entry.tileId = tileId += readVarint()))
+  entries.forEach((entry) => (entry.runLength = readVarint()))
+  entries.forEach((entry) => (entry.length = readVarint()))
+  entries.forEach((entry, index) => {
+    const value = readVarint()
+    const previous = entries[index - 1]
+    entry.offset = value === 0 && previous ? previous.offset + previous.length : value - 1
+  })
+  return entries
+}
+
+// Tile ids count every tile of the lower zooms first, then follow a Hilbert curve within the zoom
+export const tileIdToCoord = (tileId: number): TileCoord => {
+  let z = 0
+  let levelStart = 0
+  while (levelStart + 4 ** z <= tileId) {
+    levelStart += 4 ** z
+    z++
+  }
+
+  let position = tileId - levelStart
+  let x = 0
+  let y = 0
+  for (let size = 1; size < 2 ** z; size *= 2) {
+    // Modulo rather than bit masks: ids pass 2^31 from zoom 16
+    const rx = Math.floor(position / 2) % 2
+    const ry = (position % 2) ^ rx
+    if (ry === 0) {
+      if (rx === 1) {
+        x = size - 1 - x
+        y = size - 1 - y
+      }
+      const swap = x
+      x = y
+      y = swap
+    }
+    x += size * rx
+    y += size * ry
+    position = Math.floor(position / 4)
+  }
+  return { x, y, z }
+}
+
+export async function* readPmtilesTiles(
+  file: Blob,
+  header: PmtilesHeader,
+): AsyncGenerator<{ coord: TileCoord; blob: Blob }> {
+  const type = RASTER_TYPES[header.tileType]
+  if (!type) throw new Error("Only raster (PNG, JPEG, WebP or AVIF) archives can be drawn on this map")
+
+  const readDirectory = async (offset: number, length: number) =>
+    parseDirectory(await decompress(await readSlice(file, offset, length), header.internalCompression))
+
+  const walk = async function* (entries: DirectoryEntry[]): AsyncGenerator<{ coord: TileCoord; blob: Blob }> {
+    for (const entry of entries) {
+      if (entry.runLength === 0) {
+        yield* walk(await readDirectory(header.leafDirectoriesOffset + entry.offset, entry.length))
+        continue
+      }
+
+      const data = await readSlice(file, header.tileDataOffset + entry.offset, entry.length)
+      const blob = new Blob([await decompress(data, header.tileCompression)], { type })
+      for (let run = 0; run < entry.runLength; run++) yield { coord: tileIdToCoord(entry.tileId + run), blob }
+    }
+  }
+
+  yield* walk(await readDirectory(header.rootDirectoryOffset, header.rootDirectoryLength))
+}